@@ -1,2 +1,10 @@
-export * from './numeric-input'
-export * from './numeric-input.types'
\ No newline at end of file
+export { NumericInput } from './numeric-input'
+export { NumericStepper } from './numeric-stepper'
+export { useNumericScrub } from './use-numeric-scrub'
+export * from './pattern-numeric-input'
+export * from './numeric-input.types'
+export {
+  formatDigitPattern,
+  parseKanjiNumeral,
+  unmaskDigitPattern,
+} from './numeric-input.utils'
@@ -1,17 +1,25 @@
 import type { Meta, StoryObj } from '@storybook/react-vite'
 import { useState, useCallback } from 'react'
 import { NumericInput } from './numeric-input'
-import type { NumericInputProps, NumericInputValue } from './numeric-input.types'
+import type {
+  NumericInputPlugin,
+  NumericInputProps,
+  NumericInputValue,
+  NumericStepFunction,
+  NumericValueType,
+} from './numeric-input.types'
 
 // Wrapper component that maintains its own state
-const NumericInputWithState = (props: Omit<NumericInputProps, 'onValueChange'>) => {
-  const [value, setValue] = useState<NumericInputValue>({
+const NumericInputWithState = (
+  props: Omit<NumericInputProps<NumericValueType>, 'onValueChange'>,
+) => {
+  const [value, setValue] = useState<NumericInputValue<NumericValueType>>({
     value: 0,
     formattedValue: '',
   })
 
 
-  const handleValueChange = useCallback((val: NumericInputValue) => {
+  const handleValueChange = useCallback((val: NumericInputValue<NumericValueType>) => {
     setValue(val)
   }, [])
 
@@ -42,6 +50,40 @@ const meta = {
       control: 'text',
       description: 'Thousands separator character (default: comma)',
     },
+    locale: {
+      control: 'text',
+      description: 'Locale for grouping, decimal and minus symbols (e.g. de-DE, "auto")',
+    },
+    numberingSystem: {
+      control: 'select',
+      options: [undefined, 'latn', 'arab', 'arabext', 'deva', 'beng', 'thai', 'fullwide'],
+      description: 'Numbering system for displayed digits; value stays a plain number',
+    },
+    decimalSeparator: {
+      control: 'text',
+      description: 'Decimal point symbol (default: dot)',
+    },
+    grouping: {
+      control: 'select',
+      options: ['thousands', 'lakh', 'wan', 'min2'],
+      description: 'Digit grouping style',
+    },
+    prefix: {
+      control: 'text',
+      description: 'Text shown before the number',
+    },
+    suffix: {
+      control: 'text',
+      description: 'Text shown after the number',
+    },
+    currency: {
+      control: 'text',
+      description: 'ISO 4217 currency code (e.g. USD, JPY, KWD)',
+    },
+    percent: {
+      control: 'boolean',
+      description: 'Type percentages, report fractions',
+    },
     allowDecimal: {
       control: 'boolean',
       description: 'Allow decimal point input',
@@ -62,6 +104,77 @@ const meta = {
       control: 'number',
       description: 'Maximum number of decimal places',
     },
+    maxIntegerDigits: {
+      control: 'number',
+      description: 'Maximum number of integer digits',
+    },
+    maxSignificantDigits: {
+      control: 'number',
+      description: 'Maximum number of significant digits',
+    },
+    digitLimitBehavior: {
+      control: 'select',
+      options: ['truncate', 'reject'],
+      description: 'Truncate or reject edits past a digit limit',
+    },
+    roundingMode: {
+      control: 'select',
+      options: ['trunc', 'halfUp', 'halfEven', 'ceil', 'floor'],
+      description: 'Rounding for pasted, blurred and external values',
+    },
+    fixedDecimalScale: {
+      control: 'boolean',
+      description: 'Pad decimals to maxDecimalPlaces on blur',
+    },
+    valueType: {
+      control: 'select',
+      options: ['number', 'string', 'bigint'],
+      description: 'Type of the reported value',
+    },
+    allowExponent: {
+      control: 'boolean',
+      description: 'Accept scientific notation such as 6.02e23',
+    },
+    exponentDisplay: {
+      control: 'select',
+      options: ['auto', 'always', 'never'],
+      description: 'When committed values are shown with an exponent',
+    },
+    kanjiNumerals: {
+      control: 'boolean',
+      description: 'Parse kanji numerals such as 三万五千 when IME composition ends',
+    },
+    characterMappings: {
+      control: 'object',
+      description: 'Extra text replacements applied before full-width conversion',
+    },
+    negativeStyle: {
+      control: 'select',
+      options: ['minus', 'typographic', 'parentheses'],
+      description: 'How negative values are shown',
+    },
+    signDisplay: {
+      control: 'select',
+      options: ['auto', 'always', 'exceptZero'],
+      description: 'When positive values show a plus sign',
+    },
+    plugins: {
+      control: false,
+      description: 'Custom parse/validate/format stages, run in array order',
+    },
+    step: {
+      control: 'number',
+      description: 'Arrow key step; a function gives non-linear scales',
+    },
+    stepMultipliers: {
+      control: 'object',
+      description: 'Shift, Alt and PageUp/PageDown step multipliers',
+    },
+    wheelBehavior: {
+      control: 'select',
+      options: ['none', 'step', 'fine'],
+      description: 'Mouse wheel and trackpad stepping while focused',
+    },
   },
 } satisfies Meta<typeof NumericInputWithState>
 
@@ -110,6 +223,65 @@ export const WithCustomSeparator: Story = {
   },
 }
 
+export const WithGermanLocale: Story = {
+  args: {
+    placeholder: 'Betrag eingeben',
+    locale: 'de-DE',
+    allowDecimal: true,
+  },
+}
+
+export const WithArabicDigits: Story = {
+  args: {
+    placeholder: 'أدخل رقمًا',
+    locale: 'ar-EG',
+    numberingSystem: 'arab',
+    allowDecimal: true,
+  },
+}
+
+export const WithFullWidthDigits: Story = {
+  args: {
+    placeholder: '数値を入力',
+    numberingSystem: 'fullwide',
+    separator: ',',
+  },
+}
+
+export const WithDecimalComma: Story = {
+  args: {
+    placeholder: 'Enter a number (1.234,56)',
+    separator: '.',
+    decimalSeparator: ',',
+    allowDecimal: true,
+  },
+}
+
+export const WithIndianGrouping: Story = {
+  args: {
+    placeholder: 'Enter a number (12,34,56,789)',
+    separator: ',',
+    grouping: 'lakh',
+  },
+}
+
+export const WithPrefixAndSuffix: Story = {
+  args: {
+    placeholder: 'Enter a weight',
+    prefix: '≈ ',
+    suffix: ' kg',
+    separator: ',',
+    allowDecimal: true,
+  },
+}
+
+export const WithPluralSuffix: Story = {
+  args: {
+    placeholder: 'Enter a quantity',
+    suffix: { one: ' item', other: ' items' },
+  },
+}
+
 export const WithMinMax: Story = {
   args: {
     placeholder: 'Enter a number between 0 and 100',
@@ -141,10 +313,181 @@ export const FullFeatured: Story = {
 export const CurrencyInput: Story = {
   args: {
     placeholder: 'Enter amount',
+    currency: 'USD',
+    locale: 'en-US',
+    minValue: 0,
+    fixedDecimalScale: true,
+    roundingMode: 'halfEven',
+  },
+}
+
+const basisPoints: NumericInputPlugin = {
+  name: 'basis-points',
+  parse: (text) => text.replace(/\s*bp$/, ''),
+  format: (text) => `${text} bp`,
+}
+
+const accountAmount: NumericInputPlugin = {
+  name: 'account-amount',
+  validate: (value) => /^\d{1,10}$/.test(value),
+  format: (text) => text.padStart(10, '0'),
+}
+
+export const WithBasisPointsPlugin: Story = {
+  args: {
+    placeholder: 'Enter basis points',
+    separator: ',',
+    plugins: [basisPoints],
+  },
+}
+
+export const WithAccountAmountPlugin: Story = {
+  args: {
+    placeholder: '0000000000',
+    plugins: [accountAmount],
+  },
+}
+
+export const WithKeyboardStepping: Story = {
+  args: {
+    placeholder: 'Use the arrow keys',
+    allowDecimal: true,
+    maxDecimalPlaces: 2,
+    separator: ',',
+    step: 0.25,
+    minValue: 0,
+    maxValue: 10000,
+  },
+}
+
+export const WithWheelAdjust: Story = {
+  args: {
+    placeholder: 'Focus, then scroll',
     allowDecimal: true,
+    maxDecimalPlaces: 1,
+    step: 1,
+    wheelBehavior: 'fine',
+    minValue: 0,
+    maxValue: 360,
+    suffix: '°',
+  },
+}
+
+// 1-2-5 scale: 1, 2, 5, 10, 20, 50, ...
+const oneTwoFive: NumericStepFunction = (value, direction) => {
+  const magnitude = 10 ** Math.floor(Math.log10(Math.max(value, 1)))
+  const mantissa = Math.round(value / magnitude)
+  const scale = [1, 2, 5, 10]
+  const index = scale.findIndex((n) => n >= mantissa)
+  const nextIndex = scale[index] === mantissa ? index + direction : direction > 0 ? index : index - 1
+  return nextIndex < 0 ? magnitude / 2 : scale[nextIndex] * magnitude
+}
+
+export const WithOneTwoFiveSteps: Story = {
+  args: {
+    placeholder: '1, 2, 5, 10, 20, 50, ...',
     separator: ',',
+    step: oneTwoFive,
+    minValue: 1,
+  },
+}
+
+export const AccountingInput: Story = {
+  args: {
+    placeholder: 'Enter amount',
+    currency: 'USD',
+    locale: 'en-US',
+    allowNegative: true,
+    negativeStyle: 'parentheses',
+    fixedDecimalScale: true,
+  },
+}
+
+export const DeltaInput: Story = {
+  args: {
+    placeholder: 'Enter change',
+    allowNegative: true,
+    allowDecimal: true,
+    negativeStyle: 'typographic',
+    signDisplay: 'exceptZero',
+  },
+}
+
+export const YenInput: Story = {
+  args: {
+    placeholder: '金額を入力',
+    currency: 'JPY',
+    locale: 'ja-JP',
+    minValue: 0,
+  },
+}
+
+export const WithKanjiNumerals: Story = {
+  args: {
+    placeholder: '三万五千 と入力',
+    kanjiNumerals: true,
+    magnitudeSuffixes: true,
+    locale: 'ja-JP',
+  },
+}
+
+export const PercentInput: Story = {
+  args: {
+    placeholder: 'Enter a rate',
+    percent: true,
+    allowDecimal: true,
     maxDecimalPlaces: 2,
     minValue: 0,
+    maxValue: 1,
+  },
+}
+
+export const WithMagnitudeSuffixes: Story = {
+  args: {
+    placeholder: 'Try 250k or 1.5m',
+    magnitudeSuffixes: true,
+    allowDecimal: true,
+    separator: ',',
+  },
+}
+
+export const WithCompactBlurredFormat: Story = {
+  args: {
+    placeholder: 'Enter a budget',
+    currency: 'USD',
+    locale: 'en-US',
+    blurredFormat: 'compact',
+  },
+}
+
+export const WithExponent: Story = {
+  args: {
+    placeholder: 'Enter a value like 6.02e23',
+    allowExponent: true,
+    allowDecimal: true,
+    allowNegative: true,
+    separator: ',',
+  },
+}
+
+export const WithExactDecimalString: Story = {
+  args: {
+    placeholder: 'Enter a token amount',
+    valueType: 'string',
+    allowDecimal: true,
+    maxDecimalPlaces: 18,
+    separator: ',',
+  },
+}
+
+export const WithDecimalColumnLimits: Story = {
+  args: {
+    placeholder: 'DECIMAL(13,4)',
+    allowDecimal: true,
+    maxIntegerDigits: 9,
+    maxDecimalPlaces: 4,
+    digitLimitBehavior: 'reject',
+    separator: ',',
   },
 }
 
@@ -1,11 +1,23 @@
 import { describe, it, expect, vi, beforeEach, type MockedFunction } from 'vitest'
+import { useState } from 'react'
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { NumericInput } from './numeric-input'
-import type { NumericInputValue } from './numeric-input.types'
+import type {
+  NumericInputPlugin,
+  NumericInputValue,
+  NumericValueType,
+} from './numeric-input.types'
+import {
+  convertFullWidthToHalfWidth,
+  parseKanjiNumeral,
+  parsePastedNumber,
+} from './numeric-input.utils'
 
 describe('NumericInput', () => {
-  let onValueChange: MockedFunction<(valueObject: NumericInputValue) => void>
+  let onValueChange: MockedFunction<
+    (valueObject: NumericInputValue<NumericValueType>) => void
+  >
 
   beforeEach(() => {
     onValueChange = vi.fn()
@@ -56,6 +68,28 @@ describe('NumericInput', () => {
       })
     })
 
+    it('should keep typed fraction zeros while typing', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput onValueChange={onValueChange} allowDecimal={true} separator="," />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1234.0')
+      expect(input).toHaveValue('1,234.0')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1234,
+        formattedValue: '1,234.0',
+      })
+
+      await user.type(input, '5')
+      expect(input).toHaveValue('1,234.05')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1234.05,
+        formattedValue: '1,234.05',
+      })
+    })
+
     it('should have decimal inputMode when allowDecimal is true', () => {
       render(<NumericInput onValueChange={onValueChange} allowDecimal={true} />)
       const input = screen.getByRole('textbox')
@@ -1199,4 +1233,3451 @@ describe('NumericInput', () => {
       })
     })
   })
+
+  describe('Locale formatting', () => {
+    it('should use German grouping and decimal symbols', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          locale="de-DE"
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1234567,89' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 1234567.89,
+          formattedValue: '1.234.567,89',
+        })
+      })
+    })
+
+    it('should not read German grouping dots back as decimal points', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          locale="de-DE"
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1234' } })
+      await waitFor(() => {
+        expect(input).toHaveValue('1.234')
+      })
+
+      fireEvent.change(input, { target: { value: '1.2345' } })
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 12345,
+          formattedValue: '12.345',
+        })
+      })
+    })
+
+    it('should preserve a trailing localized decimal point', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          locale="fr-FR"
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '12,' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 12,
+          formattedValue: '12,',
+        })
+      })
+    })
+
+    it('should report the same value in every locale', async () => {
+      const locales = {
+        'en-US': '1,234.5',
+        'de-DE': '1.234,5',
+        'fr-FR': '1\u202f234,5',
+        'ja-JP': '1,234.5',
+      }
+
+      for (const [locale, formattedValue] of Object.entries(locales)) {
+        const handleValueChange = vi.fn()
+        const { unmount } = render(
+          <NumericInput
+            onValueChange={handleValueChange}
+            locale={locale}
+            allowDecimal={true}
+          />,
+        )
+
+        fireEvent.change(screen.getByRole('textbox'), {
+          target: { value: formattedValue },
+        })
+
+        await waitFor(() => {
+          expect(handleValueChange).toHaveBeenLastCalledWith({
+            value: 1234.5,
+            formattedValue,
+          })
+        })
+        unmount()
+      }
+    })
+
+    it('should parse a localized value prop', () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          value="1.234,5"
+          locale="de-DE"
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      expect(input).toHaveValue('1.234,5')
+    })
+
+    it('should let separator override the locale grouping symbol', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          locale="de-DE"
+          separator=" "
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1234,5' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 1234.5,
+          formattedValue: '1 234,5',
+        })
+      })
+    })
+
+    it('should fall back to navigator.language for locale="auto"', async () => {
+      vi.spyOn(navigator, 'language', 'get').mockReturnValue('de-DE')
+
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          locale="auto"
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1234,5' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 1234.5,
+          formattedValue: '1.234,5',
+        })
+      })
+      vi.restoreAllMocks()
+    })
+  })
+
+  describe('Decimal separator', () => {
+    it('should use a comma decimal with dot grouping', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator="."
+          decimalSeparator=","
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1234567,89')
+
+      expect(input).toHaveValue('1.234.567,89')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1234567.89,
+        formattedValue: '1.234.567,89',
+      })
+    })
+
+    it('should preserve a trailing decimal separator', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator="."
+          decimalSeparator=","
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1.234,' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 1234,
+          formattedValue: '1.234,',
+        })
+      })
+    })
+
+    it('should limit decimal places after the decimal separator', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator="."
+          decimalSeparator=","
+          allowDecimal={true}
+          maxDecimalPlaces={2}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1.234,5678' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 1234.56,
+          formattedValue: '1.234,56',
+        })
+      })
+    })
+
+    it('should keep the caret after a typed decimal point', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1234.5')
+
+      expect(input).toHaveValue('1,234.5')
+    })
+
+    it('should insert the decimal separator from the numpad decimal key', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator="."
+          decimalSeparator=","
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      fireEvent.change(input, { target: { value: '12' } })
+      await waitFor(() => {
+        expect(input).toHaveValue('12')
+      })
+
+      input.setSelectionRange(2, 2)
+      fireEvent.keyDown(input, { key: '.', code: 'NumpadDecimal' })
+
+      await waitFor(() => {
+        expect(input).toHaveValue('12,')
+      })
+      expect(input.selectionStart).toBe(3)
+    })
+
+    it('should ignore the numpad decimal key when decimals are not allowed', () => {
+      render(<NumericInput onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '12' } })
+      onValueChange.mockClear()
+      fireEvent.keyDown(input, { key: '.', code: 'NumpadDecimal' })
+
+      expect(onValueChange).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Digit grouping', () => {
+    it('should group Indian lakh/crore style', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          grouping="lakh"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '123456789' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 123456789,
+          formattedValue: '12,34,56,789',
+        })
+      })
+    })
+
+    it('should group in blocks of four digits', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          grouping="wan"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '123456789' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 123456789,
+          formattedValue: '1,2345,6789',
+        })
+      })
+    })
+
+    it('should skip grouping below the minimum grouping digits', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          grouping={{ primary: 3, minimumGroupingDigits: 2 }}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1234' } })
+      await waitFor(() => {
+        expect(input).toHaveValue('1234')
+      })
+
+      fireEvent.change(input, { target: { value: '12345' } })
+      await waitFor(() => {
+        expect(input).toHaveValue('12,345')
+      })
+    })
+
+    it('should take the grouping pattern from the locale', async () => {
+      render(<NumericInput onValueChange={onValueChange} locale="en-IN" />)
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1234567' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 1234567,
+          formattedValue: '12,34,567',
+        })
+      })
+    })
+
+    it('should keep the caret position when regrouping', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          grouping="lakh"
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '1234567')
+      expect(input).toHaveValue('12,34,567')
+
+      input.setSelectionRange(3, 3)
+      await user.keyboard('9')
+
+      expect(input).toHaveValue('1,29,34,567')
+      expect(input.selectionStart).toBe(4)
+    })
+
+    it('should delete the digit before a lakh separator on backspace', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          grouping="lakh"
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      fireEvent.change(input, { target: { value: '1234567' } })
+      await waitFor(() => {
+        expect(input).toHaveValue('12,34,567')
+      })
+
+      input.setSelectionRange(3, 3)
+      fireEvent.keyDown(input, { key: 'Backspace' })
+
+      await waitFor(() => {
+        expect(input).toHaveValue('1,34,567')
+      })
+      expect(input.selectionStart).toBe(1)
+    })
+  })
+
+  describe('Prefix and suffix', () => {
+    it('should display the prefix and suffix without changing the value', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          prefix="$"
+          suffix=" USD"
+          separator=","
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1234')
+
+      expect(input).toHaveValue('$1,234 USD')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1234,
+        formattedValue: '$1,234 USD',
+      })
+    })
+
+    it('should parse pasted text that contains the prefix and suffix', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          prefix="No. "
+          suffix=" kg"
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: 'No. 12.5 kg' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 12.5,
+          formattedValue: 'No. 12.5 kg',
+        })
+      })
+    })
+
+    it('should parse a value prop that contains the prefix', () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          value="$1,234"
+          prefix="$"
+          separator=","
+        />,
+      )
+
+      expect(screen.getByRole('textbox')).toHaveValue('$1,234')
+    })
+
+    it('should leave an empty input empty', async () => {
+      render(
+        <NumericInput onValueChange={onValueChange} prefix="$" />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '$5' } })
+      fireEvent.change(input, { target: { value: '$' } })
+
+      await waitFor(() => {
+        expect(input).toHaveValue('')
+      })
+    })
+
+    it('should pluralize the suffix', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          suffix={{ one: ' item', other: ' items' }}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1' } })
+      await waitFor(() => {
+        expect(input).toHaveValue('1 item')
+      })
+
+      fireEvent.change(input, { target: { value: '12 item' } })
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 12,
+          formattedValue: '12 items',
+        })
+      })
+    })
+
+    it('should not read katakana in the suffix as a minus sign', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          suffix="メートル"
+          allowNegative={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '5' } })
+      await waitFor(() => {
+        expect(input).toHaveValue('5メートル')
+      })
+
+      fireEvent.blur(input)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 5,
+        formattedValue: '5メートル',
+      })
+    })
+
+    it('should keep the caret out of the prefix and suffix', async () => {
+      render(
+        <NumericInput onValueChange={onValueChange} prefix="$" suffix=" kg" />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      fireEvent.change(input, { target: { value: '12' } })
+      await waitFor(() => {
+        expect(input).toHaveValue('$12 kg')
+      })
+
+      input.setSelectionRange(0, 0)
+      fireEvent.select(input)
+      expect(input.selectionStart).toBe(1)
+
+      input.setSelectionRange(6, 6)
+      fireEvent.select(input)
+      expect(input.selectionStart).toBe(3)
+    })
+
+    it('should not delete the prefix or suffix with Backspace and Delete', async () => {
+      render(
+        <NumericInput onValueChange={onValueChange} prefix="$" suffix=" kg" />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      fireEvent.change(input, { target: { value: '12' } })
+      await waitFor(() => {
+        expect(input).toHaveValue('$12 kg')
+      })
+
+      input.setSelectionRange(1, 1)
+      expect(fireEvent.keyDown(input, { key: 'Backspace' })).toBe(false)
+
+      input.setSelectionRange(3, 3)
+      expect(fireEvent.keyDown(input, { key: 'Delete' })).toBe(false)
+
+      input.setSelectionRange(2, 2)
+      expect(fireEvent.keyDown(input, { key: 'Backspace' })).toBe(true)
+    })
+  })
+
+  describe('Currency mode', () => {
+    it('should format US dollars with two decimal places', async () => {
+      render(
+        <NumericInput onValueChange={onValueChange} currency="USD" locale="en-US" />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1234.567' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 1234.56,
+          formattedValue: '$1,234.56',
+        })
+      })
+      expect(input).toHaveAttribute('inputMode', 'decimal')
+    })
+
+    it('should not allow decimals for yen', async () => {
+      render(
+        <NumericInput onValueChange={onValueChange} currency="JPY" locale="ja-JP" />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1234.5' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 12345,
+          formattedValue: '￥12,345',
+        })
+      })
+      expect(input).toHaveAttribute('inputMode', 'numeric')
+    })
+
+    it('should allow three decimal places for Kuwaiti dinar', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          currency="KWD"
+          currencyDisplay="code"
+          locale="en-US"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1.23456' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 1.234,
+          formattedValue: 'KWD\u00a01.234',
+        })
+      })
+    })
+
+    it('should place the symbol after the number when the locale does', async () => {
+      render(
+        <NumericInput onValueChange={onValueChange} currency="EUR" locale="de-DE" />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1234,5' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 1234.5,
+          formattedValue: '1.234,5\u00a0€',
+        })
+      })
+    })
+
+    it('should let explicit props override the currency defaults', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          currency="USD"
+          locale="en-US"
+          maxDecimalPlaces={4}
+          prefix="US$ "
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1.23456' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 1.2345,
+          formattedValue: 'US$ 1.2345',
+        })
+      })
+    })
+
+    it('should put the minus sign before the currency symbol', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          currency="USD"
+          locale="en-US"
+          allowNegative={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '-12.5')
+      expect(input).toHaveValue('-$12.5')
+      expect(input.selectionStart).toBe(6)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: -12.5,
+        formattedValue: '-$12.5',
+      })
+    })
+
+    it('should put the minus sign after the symbol when the locale does', () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          currency="EUR"
+          locale="nl-NL"
+          allowNegative={true}
+          value={-5}
+        />,
+      )
+
+      expect(screen.getByRole('textbox')).toHaveValue('€\u00a0-5')
+    })
+
+    it('should read a controlled negative currency value back', () => {
+      const Controlled = () => {
+        const [value, setValue] = useState('-$1,234.5')
+        return (
+          <NumericInput
+            currency="USD"
+            locale="en-US"
+            allowNegative={true}
+            value={value}
+            onValueChange={(v) => setValue(v.formattedValue)}
+          />
+        )
+      }
+      render(<Controlled />)
+
+      const input = screen.getByRole('textbox')
+      expect(input).toHaveValue('-$1,234.5')
+      fireEvent.change(input, { target: { value: '-$1,234.56' } })
+      expect(input).toHaveValue('-$1,234.56')
+    })
+
+    it('should remove the minus with Backspace after the currency symbol', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          currency="USD"
+          locale="en-US"
+          allowNegative={true}
+          value={-5}
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      input.setSelectionRange(0, 0)
+      fireEvent.select(input)
+      expect(input.selectionStart).toBe(2)
+
+      await user.type(input, '{Backspace}', {
+        initialSelectionStart: 2,
+        initialSelectionEnd: 2,
+      })
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 5,
+        formattedValue: '$5',
+      })
+    })
+  })
+
+  describe('Percent mode', () => {
+    it('should display percentages and report fractions', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          percent={true}
+          locale="en-US"
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '12.5' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 0.125,
+          formattedValue: '12.5%',
+        })
+      })
+    })
+
+    it('should convert without float noise', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          percent={true}
+          locale="en-US"
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '12.3' } })
+      await waitFor(() => {
+        expect(onValueChange.mock.lastCall?.[0].value).toBe(0.123)
+      })
+
+      fireEvent.change(input, { target: { value: '7' } })
+      await waitFor(() => {
+        expect(onValueChange.mock.lastCall?.[0].value).toBe(0.07)
+      })
+    })
+
+    it('should apply maxDecimalPlaces to the displayed digits', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          percent={true}
+          locale="en-US"
+          allowDecimal={true}
+          maxDecimalPlaces={1}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '12.345' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 0.123,
+          formattedValue: '12.3%',
+        })
+      })
+    })
+
+    it('should read minValue and maxValue as fractions by default', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          percent={true}
+          locale="en-US"
+          maxValue={1}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '150' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 1,
+          formattedValue: '100%',
+        })
+      })
+    })
+
+    it('should read minValue and maxValue as percentages when requested', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          percent={true}
+          percentBounds="percent"
+          locale="en-US"
+          maxValue={50}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '60' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 0.5,
+          formattedValue: '50%',
+        })
+      })
+    })
+
+    it('should display a numeric value prop as a percentage', () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          value={0.125}
+          percent={true}
+          locale="en-US"
+          allowDecimal={true}
+        />,
+      )
+
+      expect(screen.getByRole('textbox')).toHaveValue('12.5%')
+    })
+
+    it('should stay in sync when formattedValue is fed back', async () => {
+      const user = userEvent.setup()
+      const ControlledPercent = () => {
+        const [state, setState] = useState<NumericInputValue>({
+          value: undefined,
+          formattedValue: '',
+        })
+        return (
+          <NumericInput
+            value={state.formattedValue}
+            onValueChange={(next) => {
+              setState(next)
+              onValueChange(next)
+            }}
+            percent={true}
+            locale="en-US"
+            allowDecimal={true}
+          />
+        )
+      }
+      render(<ControlledPercent />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '12.5')
+
+      expect(input).toHaveValue('12.5%')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 0.125,
+        formattedValue: '12.5%',
+      })
+    })
+  })
+
+  describe('Fixed decimal scale', () => {
+    it('should keep typing free-form while focused and pad on blur', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          maxDecimalPlaces={2}
+          fixedDecimalScale={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '2.5')
+      expect(input).toHaveValue('2.5')
+
+      await user.tab()
+
+      expect(input).toHaveValue('2.50')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 2.5,
+        formattedValue: '2.50',
+      })
+    })
+
+    it('should pad whole numbers on blur', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          currency="USD"
+          locale="en-US"
+          fixedDecimalScale={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1234')
+      expect(input).toHaveValue('$1,234')
+
+      await user.tab()
+
+      expect(input).toHaveValue('$1,234.00')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1234,
+        formattedValue: '$1,234.00',
+      })
+    })
+
+    it('should pad an externally supplied value prop', () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          value={1}
+          allowDecimal={true}
+          maxDecimalPlaces={2}
+          fixedDecimalScale={true}
+        />,
+      )
+
+      expect(screen.getByRole('textbox')).toHaveValue('1.00')
+    })
+
+    it('should leave an empty input empty on blur', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          maxDecimalPlaces={2}
+          fixedDecimalScale={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.tab()
+
+      expect(input).toHaveValue('')
+    })
+  })
+
+  describe('Magnitude suffixes', () => {
+    it('should expand k/m/b/t suffixes as soon as they are typed', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          magnitudeSuffixes={true}
+          separator=","
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '250k')
+
+      expect(input).toHaveValue('250,000')
+      expect(input.selectionStart).toBe(7)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 250000,
+        formattedValue: '250,000',
+      })
+    })
+
+    it('should expand decimal amounts with uppercase suffixes', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          magnitudeSuffixes={true}
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1.5M' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 1500000,
+          formattedValue: '1500000',
+        })
+      })
+    })
+
+    it('should expand Japanese suffixes for a Japanese locale', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          magnitudeSuffixes={true}
+          locale="ja-JP"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '10万' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 100000,
+          formattedValue: '100,000',
+        })
+      })
+    })
+
+    it('should clamp expanded values to maxValue', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          magnitudeSuffixes={true}
+          maxValue={100000}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '250k' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 100000,
+          formattedValue: '100000',
+        })
+      })
+    })
+
+    it('should drop fraction digits beyond maxDecimalPlaces after expansion', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          magnitudeSuffixes={true}
+          allowDecimal={true}
+          maxDecimalPlaces={1}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1.23456k' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 1234.5,
+          formattedValue: '1234.5',
+        })
+      })
+    })
+
+    it('should ignore an expansion that exceeds maxLength', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          magnitudeSuffixes={true}
+          maxLength={5}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '250m' } })
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: 250,
+          formattedValue: '250',
+        })
+      })
+    })
+
+    it('should wait for commit while a custom suffix is ambiguous', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          magnitudeSuffixes={{ m: 1e6, mil: 1e6, bn: 1e9 }}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '2m')
+
+      expect(input).toHaveValue('2m')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 2,
+        formattedValue: '2',
+      })
+
+      await user.keyboard('{Enter}')
+
+      expect(input).toHaveValue('2000000')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 2000000,
+        formattedValue: '2000000',
+      })
+    })
+
+    it('should expand an ambiguous suffix on blur', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          magnitudeSuffixes={{ m: 1e6, mil: 1e6 }}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '3m')
+      await user.tab()
+
+      expect(input).toHaveValue('3000000')
+    })
+  })
+
+  describe('Blurred format', () => {
+    it('should show a compact number while blurred and the plain number while focused', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          locale="en-US"
+          blurredFormat="compact"
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '1234567')
+      expect(input).toHaveValue('1,234,567')
+
+      await user.tab()
+      expect(input).toHaveValue('1.2M')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1234567,
+        formattedValue: '1,234,567',
+      })
+
+      fireEvent.focus(input)
+      expect(input).toHaveValue('1,234,567')
+      await waitFor(() => {
+        expect(input.selectionStart).toBe(9)
+      })
+    })
+
+    it('should include the currency in compact currency mode', () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          value={1234567}
+          currency="USD"
+          locale="en-US"
+          blurredFormat="compact"
+        />,
+      )
+
+      expect(screen.getByRole('textbox')).toHaveValue('$1.2M')
+    })
+
+    it('should accept Intl.NumberFormat options', () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          value={1234.5}
+          allowDecimal={true}
+          locale="en-US"
+          blurredFormat={{
+            style: 'currency',
+            currency: 'USD',
+            currencyDisplay: 'code',
+          }}
+        />,
+      )
+
+      expect(screen.getByRole('textbox')).toHaveValue('USD\u00a01,234.50')
+    })
+
+    it('should accept a formatter function', () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          value={1234.5}
+          allowDecimal={true}
+          separator=","
+          blurredFormat={(_, formattedValue) => `${formattedValue} USD`}
+        />,
+      )
+
+      expect(screen.getByRole('textbox')).toHaveValue('1,234.5 USD')
+    })
+
+    it('should leave an empty input empty', () => {
+      render(
+        <NumericInput onValueChange={onValueChange} blurredFormat="compact" />,
+      )
+
+      expect(screen.getByRole('textbox')).toHaveValue('')
+    })
+  })
+
+  describe('Exponent input', () => {
+    it('should keep partial exponents while typing', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowExponent={true}
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1.5e')
+      expect(input).toHaveValue('1.5e')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1.5,
+        formattedValue: '1.5e',
+      })
+
+      await user.type(input, '-')
+      expect(input).toHaveValue('1.5e-')
+
+      await user.type(input, '3')
+      expect(input).toHaveValue('1.5e-3')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 0.0015,
+        formattedValue: '1.5e-3',
+      })
+    })
+
+    it.each([
+      ['6.022e9', 6.022e9, '6022000000'],
+      ['1.05e-9', 1.05e-9, '1.05e-9'],
+    ])('should keep zeros typed in the mantissa of %s', async (typed, expected, blurred) => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowExponent={true}
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, typed)
+      expect(input).toHaveValue(typed)
+      await user.tab()
+      expect(input).toHaveValue(blurred)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: expected,
+        formattedValue: blurred,
+      })
+    })
+
+    it('should refuse a negative exponent without allowDecimal', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput onValueChange={onValueChange} allowExponent={true} />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1e-9')
+      expect(input).toHaveValue('1e9')
+      expect(onValueChange).not.toHaveBeenCalledWith(
+        expect.objectContaining({ formattedValue: '1e-' }),
+      )
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1000000000,
+        formattedValue: '1e9',
+      })
+    })
+
+    it('should group the mantissa and keep the caret after the typed exponent digit', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowExponent={true}
+          separator=","
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '1234e5')
+      expect(input).toHaveValue('1,234e5')
+      expect(input.selectionStart).toBe(7)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 123400000,
+        formattedValue: '1,234e5',
+      })
+    })
+
+    it('should format the value on blur using the exponent display mode', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowExponent={true}
+          allowDecimal={true}
+          separator=","
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '6.25e-7')
+      await user.tab()
+      expect(input).toHaveValue('6.25e-7')
+
+      await user.clear(input)
+      await user.type(input, '1.5e3')
+      await user.tab()
+      expect(input).toHaveValue('1,500')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1500,
+        formattedValue: '1,500',
+      })
+    })
+
+    it('should drop a dangling exponent on blur', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowExponent={true}
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '12e-')
+      await user.tab()
+      expect(input).toHaveValue('12')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 12,
+        formattedValue: '12',
+      })
+    })
+
+    it('should show small and large external values with an exponent', () => {
+      const { rerender } = render(
+        <NumericInput
+          onValueChange={onValueChange}
+          value={1e-9}
+          allowExponent={true}
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      expect(input).toHaveValue('1e-9')
+
+      rerender(
+        <NumericInput
+          onValueChange={onValueChange}
+          value={1234}
+          allowExponent={true}
+          exponentDisplay="always"
+        />,
+      )
+      expect(input).toHaveValue('1.234e3')
+
+      rerender(
+        <NumericInput
+          onValueChange={onValueChange}
+          value={1e-9}
+          allowExponent={true}
+          allowDecimal={true}
+          exponentDisplay="never"
+        />,
+      )
+      expect(input).toHaveValue('0.000000001')
+    })
+
+    it('should apply exponentDisplay once the value is committed', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowExponent={true}
+          exponentDisplay="always"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1234')
+      expect(input).toHaveValue('1234')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1234,
+        formattedValue: '1234',
+      })
+
+      await user.tab()
+      expect(input).toHaveValue('1.234e3')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1234,
+        formattedValue: '1.234e3',
+      })
+    })
+
+    it('should clamp exponent values to min/max', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowExponent={true}
+          separator=","
+          maxValue={5000}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1e')
+      expect(input).toHaveValue('1e')
+
+      await user.type(input, '4')
+      expect(input).toHaveValue('5,000')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 5000,
+        formattedValue: '5,000',
+      })
+    })
+
+    it('should hold exponent values at MAX_SAFE_INTEGER in number mode', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowExponent={true}
+          allowNegative={true}
+          separator=","
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1e20')
+      expect(input).toHaveValue('9,007,199,254,740,991')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: Number.MAX_SAFE_INTEGER,
+        formattedValue: '9,007,199,254,740,991',
+      })
+
+      await user.clear(input)
+      await user.type(input, '-1e999')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: -Number.MAX_SAFE_INTEGER,
+        formattedValue: '-9,007,199,254,740,991',
+      })
+    })
+
+    it('should not accept negative exponents when decimals are not allowed', async () => {
+      const user = userEvent.setup()
+      render(<NumericInput onValueChange={onValueChange} allowExponent={true} />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '2e-3')
+      expect(input).toHaveValue('2e3')
+    })
+
+    it('should work with a controlled value', async () => {
+      const user = userEvent.setup()
+      const ControlledInput = () => {
+        const [value, setValue] = useState<number | undefined>(undefined)
+        return (
+          <NumericInput
+            value={value}
+            onValueChange={(v) => setValue(v.value)}
+            allowExponent={true}
+            allowDecimal={true}
+          />
+        )
+      }
+      render(<ControlledInput />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '25e-')
+      expect(input).toHaveValue('25e-')
+
+      await user.type(input, '2')
+      expect(input).toHaveValue('25e-2')
+
+      await user.type(input, '{Backspace}')
+      expect(input).toHaveValue('25e-')
+    })
+
+    it('should apply exponentDisplay to exact values in string mode', async () => {
+      const user = userEvent.setup()
+      const { unmount } = render(
+        <NumericInput
+          onValueChange={onValueChange}
+          valueType="string"
+          allowExponent={true}
+          allowDecimal={true}
+          exponentDisplay="always"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '6.022e23')
+      await user.tab()
+      expect(input).toHaveValue('6.022e23')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '602200000000000000000000',
+        formattedValue: '6.022e23',
+      })
+
+      unmount()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          valueType="string"
+          value="1e-30"
+          allowExponent={true}
+          allowDecimal={true}
+        />,
+      )
+      expect(screen.getByRole('textbox')).toHaveValue('1e-30')
+    })
+
+    it('should refuse exponents past 308 in string mode', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          valueType="string"
+          allowExponent={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1e3089')
+      expect(input).toHaveValue('1e308')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: `1${'0'.repeat(308)}`,
+        formattedValue: '1e308',
+      })
+    })
+  })
+
+  describe('Value types', () => {
+    it('should report exact decimal strings beyond MAX_SAFE_INTEGER', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          valueType="string"
+          separator=","
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '123456789012345678901234')
+      expect(input).toHaveValue('123,456,789,012,345,678,901,234')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '123456789012345678901234',
+        formattedValue: '123,456,789,012,345,678,901,234',
+      })
+    })
+
+    it('should keep 18 fraction digits and trailing zeros in string mode', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          valueType="string"
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1.123456789012345678')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '1.123456789012345678',
+        formattedValue: '1.123456789012345678',
+      })
+
+      await user.clear(input)
+      await user.type(input, '2.50')
+      expect(input).toHaveValue('2.50')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '2.50',
+        formattedValue: '2.50',
+      })
+    })
+
+    it('should report bigint values without decimals', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          valueType="bigint"
+          allowNegative={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '-9007199254740993.5')
+      expect(input).toHaveValue('-90071992547409935')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: -90071992547409935n,
+        formattedValue: '-90071992547409935',
+      })
+    })
+
+    it('should clamp to string and bigint bounds without float rounding', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          valueType="string"
+          minValue={-5n}
+          maxValue="100000000000000000000"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '100000000000000000001')
+      expect(input).toHaveValue('100000000000000000000')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '100000000000000000000',
+        formattedValue: '100000000000000000000',
+      })
+    })
+
+    it('should display bigint and exact string value props', () => {
+      const { rerender } = render(
+        <NumericInput
+          onValueChange={onValueChange}
+          value={12345678901234567890n}
+          valueType="bigint"
+          separator=","
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      expect(input).toHaveValue('12,345,678,901,234,567,890')
+
+      rerender(
+        <NumericInput
+          onValueChange={onValueChange}
+          value="98,765,432,109,876,543.21"
+          valueType="string"
+          allowDecimal={true}
+          separator=","
+        />,
+      )
+      expect(input).toHaveValue('98,765,432,109,876,543.21')
+    })
+
+    it('should report percent fractions as exact strings', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          valueType="string"
+          percent={true}
+          allowDecimal={true}
+          locale="en-US"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '12.5')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '0.125',
+        formattedValue: '12.5%',
+      })
+    })
+
+    it('should keep the typed digits in a controlled string input', async () => {
+      const user = userEvent.setup()
+      const ControlledInput = () => {
+        const [value, setValue] = useState<string | undefined>(undefined)
+        return (
+          <NumericInput
+            value={value}
+            valueType="string"
+            allowDecimal={true}
+            separator=","
+            onValueChange={(v) => setValue(v.formattedValue)}
+          />
+        )
+      }
+      render(<ControlledInput />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '9007199254740993.10')
+      expect(input).toHaveValue('9,007,199,254,740,993.10')
+    })
+    it('should read a controlled percent value as the reported fraction', async () => {
+      const user = userEvent.setup()
+      const ControlledInput = () => {
+        const [value, setValue] = useState<string | undefined>('0.125')
+        return (
+          <NumericInput
+            value={value}
+            valueType="string"
+            percent={true}
+            allowDecimal={true}
+            locale="en-US"
+            onValueChange={(v) => {
+              setValue(v.value)
+              onValueChange(v)
+            }}
+          />
+        )
+      }
+      render(<ControlledInput />)
+
+      const input = screen.getByRole('textbox')
+      expect(input).toHaveValue('12.5%')
+
+      await user.clear(input)
+      await user.type(input, '12.5')
+      expect(input).toHaveValue('12.5%')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '0.125',
+        formattedValue: '12.5%',
+      })
+    })
+
+    it('should read a controlled string value without locale symbols', async () => {
+      const user = userEvent.setup()
+      const ControlledInput = () => {
+        const [value, setValue] = useState<string | undefined>('1234.5')
+        return (
+          <NumericInput
+            value={value}
+            valueType="string"
+            allowDecimal={true}
+            locale="de-DE"
+            onValueChange={(v) => {
+              setValue(v.value)
+              onValueChange(v)
+            }}
+          />
+        )
+      }
+      render(<ControlledInput />)
+
+      const input = screen.getByRole('textbox')
+      expect(input).toHaveValue('1.234,5')
+
+      await user.type(input, '6')
+      expect(input).toHaveValue('1.234,56')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '1234.56',
+        formattedValue: '1.234,56',
+      })
+    })
+  })
+
+  describe('Rounding mode', () => {
+    it('should round pasted values half up and carry into the integer part', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          maxDecimalPlaces={2}
+          roundingMode="halfUp"
+          separator=","
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.click(input)
+      await user.paste('999.995')
+      expect(input).toHaveValue('1,000')
+      expect(input.selectionStart).toBe(5)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1000,
+        formattedValue: '1,000',
+      })
+    })
+
+    it('should keep truncating while typing', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          maxDecimalPlaces={2}
+          roundingMode="halfUp"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '2.999')
+      expect(input).toHaveValue('2.99')
+    })
+
+    it.each([
+      ['halfEven', '2.345', '2.34'],
+      ['halfEven', '2.355', '2.36'],
+      ['halfEven', '2.3451', '2.35'],
+      ['halfUp', '-2.345', '-2.35'],
+      ['ceil', '-2.341', '-2.34'],
+      ['floor', '-2.341', '-2.35'],
+      ['ceil', '2.341', '2.35'],
+      ['trunc', '2.349', '2.34'],
+    ] as const)('should round pasted %s values (%s → %s)', async (roundingMode, pasted, expected) => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          allowNegative={true}
+          maxDecimalPlaces={2}
+          roundingMode={roundingMode}
+          valueType="string"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.paste(pasted)
+      expect(input).toHaveValue(expected)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: expected,
+        formattedValue: expected,
+      })
+    })
+
+    it('should move the caret with the digits when rounding carries', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          maxDecimalPlaces={1}
+          roundingMode="halfUp"
+          valueType="string"
+          separator=","
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '999.9')
+      input.setSelectionRange(4, 4)
+      await user.paste('9')
+      expect(input).toHaveValue('1,000.0')
+      expect(input.selectionStart).toBe(7)
+    })
+
+    it('should round external values', () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          value={2.995}
+          allowDecimal={true}
+          maxDecimalPlaces={2}
+          fixedDecimalScale={true}
+          roundingMode="halfUp"
+        />,
+      )
+
+      expect(screen.getByRole('textbox')).toHaveValue('3.00')
+    })
+
+    it('should round to whole numbers when decimals are not allowed', () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          value={1234.5}
+          separator=","
+          roundingMode="halfEven"
+        />,
+      )
+
+      expect(screen.getByRole('textbox')).toHaveValue('1,234')
+    })
+  })
+
+  describe('Digit limits', () => {
+    it('should limit integer and fraction digits like DECIMAL(13,4)', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          maxIntegerDigits={9}
+          maxDecimalPlaces={4}
+          separator=","
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '12345678901')
+      expect(input).toHaveValue('123,456,789')
+
+      await user.type(input, '.12345')
+      expect(input).toHaveValue('123,456,789.1234')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 123456789.1234,
+        formattedValue: '123,456,789.1234',
+      })
+    })
+
+    it('should not count leading zeros as integer digits', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          maxIntegerDigits={2}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '0.5')
+      expect(input).toHaveValue('0.5')
+
+      await user.clear(input)
+      await user.type(input, '00123')
+      expect(input).toHaveValue('12')
+    })
+
+    it('should keep the caret in place when truncating', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          maxIntegerDigits={5}
+          separator=","
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '12345')
+      input.setSelectionRange(1, 1)
+      await user.keyboard('9')
+      expect(input).toHaveValue('19,234')
+      expect(input.selectionStart).toBe(2)
+    })
+
+    it('should limit significant digits', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          maxSignificantDigits={6}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '0.001234567')
+      expect(input).toHaveValue('0.00123456')
+
+      await user.clear(input)
+      await user.type(input, '1234567')
+      expect(input).toHaveValue('123456')
+    })
+
+    it('should reject a keystroke past the limit and keep the caret', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          maxIntegerDigits={3}
+          digitLimitBehavior="reject"
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '123')
+      onValueChange.mockClear()
+
+      input.setSelectionRange(1, 1)
+      await user.keyboard('9')
+      expect(input).toHaveValue('123')
+      expect(input.selectionStart).toBe(1)
+      expect(onValueChange).not.toHaveBeenCalled()
+    })
+
+    it('should reject deleting a decimal point that would exceed the integer limit', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          maxIntegerDigits={3}
+          digitLimitBehavior="reject"
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '123.45')
+      input.setSelectionRange(4, 4)
+      await user.keyboard('{Backspace}')
+      expect(input).toHaveValue('123.45')
+    })
+
+    it('should reject extra fraction digits in the middle of the fraction', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          maxDecimalPlaces={2}
+          digitLimitBehavior="reject"
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '1.23')
+      input.setSelectionRange(2, 2)
+      await user.keyboard('9')
+      expect(input).toHaveValue('1.23')
+      expect(input.selectionStart).toBe(2)
+    })
+  })
+
+  describe('Unicode digits', () => {
+    it('should read Arabic-Indic digits and the Arabic decimal separator', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          separator=","
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '١٢٣٤٫٥')
+      expect(input).toHaveValue('1,234.5')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1234.5,
+        formattedValue: '1,234.5',
+      })
+    })
+
+    it.each([
+      ['Persian', '۱۲۳۴', 1234],
+      ['Devanagari', '१२३', 123],
+      ['Bengali', '৪৫৬', 456],
+      ['Thai', '๗๘๙', 789],
+      ['mathematical double-struck', '𝟙𝟡', 19],
+    ])('should read %s digits', async (_, pasted, expected) => {
+      const user = userEvent.setup()
+      render(<NumericInput onValueChange={onValueChange} />)
+
+      await user.click(screen.getByRole('textbox'))
+      await user.paste(pasted)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: expected,
+        formattedValue: String(expected),
+      })
+    })
+
+    it('should drop the Arabic thousands separator', async () => {
+      const user = userEvent.setup()
+      render(<NumericInput onValueChange={onValueChange} separator="," />)
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.paste('١٬٢٣٤٬٥٦٧')
+      expect(input).toHaveValue('1,234,567')
+    })
+
+    it('should keep the caret after a non-Latin digit typed in the middle', async () => {
+      const user = userEvent.setup()
+      render(<NumericInput onValueChange={onValueChange} separator="," />)
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '1234')
+      input.setSelectionRange(1, 1)
+      await user.keyboard('९')
+      expect(input).toHaveValue('19,234')
+      expect(input.selectionStart).toBe(2)
+    })
+
+    it('should parse a value prop written in Arabic-Indic digits', () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          value="١٢٣٤"
+          separator=","
+        />,
+      )
+
+      expect(screen.getByRole('textbox')).toHaveValue('1,234')
+    })
+  })
+
+  describe('Numbering system', () => {
+    it('should display full-width digits and report a plain number', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          numberingSystem="fullwide"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '12345')
+      expect(input).toHaveValue('１２,３４５')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 12345,
+        formattedValue: '１２,３４５',
+      })
+    })
+
+    it('should display Arabic-Indic digits with the locale separators', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          locale="ar-EG"
+          numberingSystem="arab"
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '3456.5')
+      expect(input).toHaveValue('٣٬٤٥٦٫٥')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 3456.5,
+        formattedValue: '٣٬٤٥٦٫٥',
+      })
+    })
+
+    it('should keep the caret after a digit typed in the middle', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          numberingSystem="fullwide"
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '1234')
+      input.setSelectionRange(1, 1)
+      await user.keyboard('9')
+      expect(input).toHaveValue('１９,２３４')
+      expect(input.selectionStart).toBe(2)
+    })
+
+    it('should delete the digit before the separator on Backspace', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          numberingSystem="fullwide"
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '1234')
+      input.setSelectionRange(2, 2)
+      fireEvent.keyDown(input, { key: 'Backspace' })
+
+      await waitFor(() => {
+        expect(input).toHaveValue('２３４')
+      })
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 234,
+        formattedValue: '２３４',
+      })
+    })
+
+    it('should accept its own formattedValue back as a controlled value', async () => {
+      const user = userEvent.setup()
+      const ControlledInput = () => {
+        const [value, setValue] = useState('')
+        return (
+          <NumericInput
+            value={value}
+            onValueChange={(valueObject) => {
+              setValue(valueObject.formattedValue)
+              onValueChange(valueObject)
+            }}
+            separator=","
+            numberingSystem="fullwide"
+          />
+        )
+      }
+      render(<ControlledInput />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '12345')
+      expect(input).toHaveValue('１２,３４５')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 12345,
+        formattedValue: '１２,３４５',
+      })
+    })
+
+    it('should use the numbering system for the blurred format', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          locale="en-US"
+          numberingSystem="arab"
+          blurredFormat="compact"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1234567')
+      await user.tab()
+      expect(input).toHaveValue('١٫٢M')
+    })
+  })
+
+  describe('Kanji numerals', () => {
+    it.each([
+      ['二〇二六', '2026'],
+      ['三万五千', '35000'],
+      ['二千二十六', '2026'],
+      ['千万', '10000000'],
+      ['一億二千三百四十五万六千七百八十九', '123456789'],
+      ['12万', '120000'],
+      ['マイナス三百', '-300'],
+      ['零', '0'],
+    ])('should parse %s', (text, expected) => {
+      expect(parseKanjiNumeral(text)).toBe(expected)
+    })
+
+    it.each(['123', '五百三千', '万億', '三万円', ''])(
+      'should not parse %j',
+      (text) => {
+        expect(parseKanjiNumeral(text)).toBeUndefined()
+      },
+    )
+
+    it('should read a kanji candidate on composition end', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          kanjiNumerals={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.compositionStart(input)
+      fireEvent.change(input, { target: { value: '三万五千' } })
+      fireEvent.compositionEnd(input, { data: '三万五千' } as CompositionEvent)
+
+      await waitFor(() => {
+        expect(input).toHaveValue('35,000')
+      })
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 35000,
+        formattedValue: '35,000',
+      })
+    })
+
+    it('should combine a kanji unit with digits already in the input', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          kanjiNumerals={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '12' } })
+      fireEvent.compositionStart(input)
+      fireEvent.change(input, { target: { value: '12万' } })
+      fireEvent.compositionEnd(input, { data: '万' } as CompositionEvent)
+
+      await waitFor(() => {
+        expect(input).toHaveValue('120,000')
+      })
+    })
+
+    it('should strip kanji numerals unless kanjiNumerals is set', async () => {
+      render(<NumericInput onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('textbox')
+      fireEvent.compositionStart(input)
+      fireEvent.change(input, { target: { value: '三万' } })
+      fireEvent.compositionEnd(input, { data: '三万' } as CompositionEvent)
+
+      await waitFor(() => {
+        expect(onValueChange).toHaveBeenLastCalledWith({
+          value: undefined,
+          formattedValue: '',
+        })
+      })
+      expect(input).toHaveValue('')
+    })
+  })
+
+  describe('CJK punctuation', () => {
+    it('should read the ideographic full stop as the decimal mark', async () => {
+      const user = userEvent.setup()
+      render(<NumericInput onValueChange={onValueChange} allowDecimal={true} />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '3。5')
+      expect(input).toHaveValue('3.5')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 3.5,
+        formattedValue: '3.5',
+      })
+    })
+
+    it('should map the ideographic full stop to the locale decimal mark', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          locale="de-DE"
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1234。5')
+      expect(input).toHaveValue('1.234,5')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1234.5,
+        formattedValue: '1.234,5',
+      })
+    })
+
+    it('should read the ideographic comma as a group separator', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.paste('1、234、567。89')
+      expect(input).toHaveValue('1,234,567.89')
+    })
+
+    it('should drop the full-width plus sign and ideographic space', async () => {
+      const user = userEvent.setup()
+      render(<NumericInput onValueChange={onValueChange} separator=" " />)
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.paste('＋1\u3000234')
+      expect(input).toHaveValue('1 234')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1234,
+        formattedValue: '1 234',
+      })
+    })
+
+    it('should apply custom character mappings before the built-in ones', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          allowNegative={true}
+          characterMappings={{ '〜': '-', 点: '.' }}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.paste('〜3点5')
+      expect(input).toHaveValue('-3.5')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: -3.5,
+        formattedValue: '-3.5',
+      })
+    })
+
+    it.each([
+      ['３。５', '3.5'],
+      ['１、０００', '1,000'],
+      ['＋１', '+1'],
+      ['1\u30002', '1 2'],
+      ['1〜2', '1~2'],
+    ])('should convert %j to %j', (text, expected) => {
+      expect(
+        convertFullWidthToHalfWidth(text, { group: ',', decimal: '.' }),
+      ).toBe(expected)
+    })
+  })
+
+  describe('Smart paste', () => {
+    it.each([
+      ['$1,234.56', 1234.56, '1,234.56'],
+      ['1.234,56 €', 1234.56, '1,234.56'],
+      ['(1,234)', -1234, '-1,234'],
+      ['1 234,56', 1234.56, '1,234.56'],
+      ["CHF 1'234.50", 1234.5, '1,234.5'],
+      ['1234-', -1234, '-1,234'],
+    ])('should read %j', async (pasted, expected, formatted) => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          allowDecimal={true}
+          allowNegative={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.paste(pasted)
+      expect(input).toHaveValue(formatted)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: expected,
+        formattedValue: formatted,
+      })
+    })
+
+    it('should read a single separator with the locale symbols', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          locale="de-DE"
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.paste('1,234')
+      expect(input).toHaveValue('1,234')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1.234,
+        formattedValue: '1,234',
+      })
+    })
+
+    it('should insert at the caret and keep the caret after the pasted digits', async () => {
+      const user = userEvent.setup()
+      render(<NumericInput onValueChange={onValueChange} separator="," />)
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '19')
+      input.setSelectionRange(1, 1)
+      await user.paste('$50')
+      expect(input).toHaveValue('1,509')
+      expect(input.selectionStart).toBe(4)
+    })
+
+    it('should let onPasteParse reject an ambiguous parse', async () => {
+      const user = userEvent.setup()
+      const onPasteParse = vi.fn(
+        (parse: { isAmbiguous: boolean }) => !parse.isAmbiguous,
+      )
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          onPasteParse={onPasteParse}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '7')
+      await user.paste('1,234')
+      expect(onPasteParse).toHaveBeenLastCalledWith({
+        text: '1,234',
+        value: '1234',
+        isAmbiguous: true,
+      })
+      expect(input).toHaveValue('7')
+
+      await user.paste('$50')
+      expect(input).toHaveValue('750')
+    })
+
+    it('should read dropped text the same way', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          allowDecimal={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '99' } })
+      fireEvent.drop(input, {
+        dataTransfer: { getData: () => '€ 1.234,50' },
+      })
+
+      await waitFor(() => {
+        expect(input).toHaveValue('1,234.5')
+      })
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1234.5,
+        formattedValue: '1,234.5',
+      })
+    })
+
+    it('should leave magnitude shorthand to the regular parser', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          magnitudeSuffixes={true}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.paste('250k')
+      expect(input).toHaveValue('250,000')
+    })
+
+    it.each([
+      ['1,234,567.891', { group: ',', decimal: '.' }, '1234567.891', false],
+      ['1.234', { group: ',', decimal: '.' }, '1.234', true],
+      ['1.234', { group: '.', decimal: ',' }, '1234', true],
+      ['0,125', { group: ',', decimal: '.' }, '0.125', false],
+      ['.5', { group: ',', decimal: '.' }, '0.5', false],
+    ])('should parse %j', (text, symbols, value, isAmbiguous) => {
+      expect(parsePastedNumber(text, symbols)).toEqual({
+        text,
+        value,
+        isAmbiguous,
+      })
+    })
+
+    it.each(['abc', '1.2.3,4,5'])('should not parse %j', (text) => {
+      expect(parsePastedNumber(text)).toBeUndefined()
+    })
+  })
+
+  describe('Sign display', () => {
+    it('should show negatives in accounting parentheses', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          allowNegative={true}
+          negativeStyle="parentheses"
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '-1234')
+      expect(input).toHaveValue('(1,234)')
+      expect(input.selectionStart).toBe(6)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: -1234,
+        formattedValue: '(1,234)',
+      })
+    })
+
+    it('should enter a negative value when "(" is typed', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          allowNegative={true}
+          negativeStyle="parentheses"
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '(')
+      expect(input).toHaveValue('()')
+      expect(input.selectionStart).toBe(1)
+
+      await user.type(input, '50', {
+        initialSelectionStart: 1,
+        initialSelectionEnd: 1,
+      })
+      expect(input).toHaveValue('(50)')
+      expect(input.selectionStart).toBe(3)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: -50,
+        formattedValue: '(50)',
+      })
+    })
+
+    it('should keep the caret out of the parentheses', () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowNegative={true}
+          negativeStyle="parentheses"
+          prefix="$"
+          value={-5}
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      expect(input).toHaveValue('($5)')
+      input.setSelectionRange(0, 4)
+      fireEvent.select(input)
+      expect(input.selectionStart).toBe(2)
+      expect(input.selectionEnd).toBe(3)
+    })
+
+    it('should remove the parentheses with Backspace after "("', async () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowNegative={true}
+          negativeStyle="parentheses"
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      fireEvent.change(input, { target: { value: '-42' } })
+      await waitFor(() => {
+        expect(input).toHaveValue('(42)')
+      })
+
+      input.setSelectionRange(1, 1)
+      fireEvent.keyDown(input, { key: 'Backspace' })
+      await waitFor(() => {
+        expect(input).toHaveValue('42')
+      })
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 42,
+        formattedValue: '42',
+      })
+    })
+
+    it('should put accounting parentheses around the prefix and suffix', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowNegative={true}
+          negativeStyle="parentheses"
+          prefix="$"
+          suffix=" net"
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '-12')
+      expect(input).toHaveValue('($12 net)')
+      expect(input.selectionStart).toBe(4)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: -12,
+        formattedValue: '($12 net)',
+      })
+
+      await user.type(input, '{Backspace}', {
+        initialSelectionStart: 2,
+        initialSelectionEnd: 2,
+      })
+      expect(input).toHaveValue('$12 net')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 12,
+        formattedValue: '$12 net',
+      })
+    })
+
+    it.each([
+      ['USD', 'en-US', '($1,234.50)'],
+      ['EUR', 'fr-FR', '(1\u202f234,50\u00a0€)'],
+      ['EUR', 'nl-NL', '(€\u00a01.234,50)'],
+    ])('should show %s in accounting style for %s as Intl does', (currency, locale, expected) => {
+      render(
+        <NumericInput
+          currency={currency}
+          locale={locale}
+          allowNegative={true}
+          negativeStyle="parentheses"
+          fixedDecimalScale={true}
+          value={-1234.5}
+        />,
+      )
+
+      expect(screen.getByRole('textbox')).toHaveValue(expected)
+    })
+
+    it.each([
+      ['en-US', '+$5'],
+      ['nl-NL', '€\u00a0+5'],
+    ])('should put "+" where Intl puts the sign for %s', async (locale, expected) => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          currency={locale === 'en-US' ? 'USD' : 'EUR'}
+          locale={locale}
+          signDisplay="always"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '5')
+      expect(input).toHaveValue(expected)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 5,
+        formattedValue: expected,
+      })
+    })
+
+    it('should put the typographic minus before the prefix', () => {
+      render(
+        <NumericInput
+          allowNegative={true}
+          negativeStyle="typographic"
+          prefix="$"
+          value={-5}
+        />,
+      )
+
+      expect(screen.getByRole('textbox')).toHaveValue('\u2212$5')
+    })
+
+    it('should show the typographic minus sign', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          allowNegative={true}
+          negativeStyle="typographic"
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '-1234')
+      expect(input).toHaveValue('\u22121,234')
+      expect(input.selectionStart).toBe(6)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: -1234,
+        formattedValue: '\u22121,234',
+      })
+    })
+
+    it.each([
+      ['always', '0', '+0'],
+      ['always', '12', '+12'],
+      ['exceptZero', '0', '0'],
+      ['exceptZero', '12', '+12'],
+    ] as const)('should show "+" with signDisplay %s for %s', async (signDisplay, typed, expected) => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput onValueChange={onValueChange} signDisplay={signDisplay} />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, typed)
+      expect(input).toHaveValue(expected)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: Number(typed),
+        formattedValue: expected,
+      })
+    })
+
+    it('should accept a styled formattedValue back as a controlled value', async () => {
+      const user = userEvent.setup()
+      const ControlledInput = () => {
+        const [value, setValue] = useState('')
+        return (
+          <NumericInput
+            value={value}
+            onValueChange={(valueObject) => {
+              setValue(valueObject.formattedValue)
+              onValueChange(valueObject)
+            }}
+            separator=","
+            allowNegative={true}
+            negativeStyle="parentheses"
+          />
+        )
+      }
+      render(<ControlledInput />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '-1234')
+      expect(input).toHaveValue('(1,234)')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: -1234,
+        formattedValue: '(1,234)',
+      })
+    })
+
+    it('should set data-negative for negative values', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput onValueChange={onValueChange} allowNegative={true} />,
+      )
+
+      const input = screen.getByRole('textbox')
+      expect(input).not.toHaveAttribute('data-negative')
+      await user.type(input, '-5')
+      expect(input).toHaveAttribute('data-negative', 'true')
+      await user.type(input, '{Home}{Delete}')
+      expect(input).not.toHaveAttribute('data-negative')
+    })
+
+    it('should style the sign of the blurred format', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          locale="en-US"
+          allowNegative={true}
+          negativeStyle="parentheses"
+          blurredFormat="compact"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '-1234567')
+      await user.tab()
+      expect(input).toHaveValue('(1.2M)')
+    })
+  })
+
+  describe('Plugins', () => {
+    const basisPoints: NumericInputPlugin = {
+      name: 'basis-points',
+      parse: (text) => text.replace(/\s*bp$/, ''),
+      format: (text) => `${text} bp`,
+    }
+
+    it('should run format stages on the display and formattedValue', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          plugins={[basisPoints]}
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '1250')
+      expect(input).toHaveValue('1,250 bp')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1250,
+        formattedValue: '1,250 bp',
+      })
+    })
+
+    it('should keep the caret with the digits around format stages', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          plugins={[basisPoints]}
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '125')
+      input.setSelectionRange(1, 1)
+      await user.keyboard('9')
+      expect(input).toHaveValue('1,925 bp')
+      expect(input.selectionStart).toBe(3)
+    })
+
+    it('should run format stages in array order', async () => {
+      const user = userEvent.setup()
+      const padded: NumericInputPlugin = {
+        format: (text) => text.padStart(6, '0'),
+      }
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          plugins={[padded, basisPoints]}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '42')
+      expect(input).toHaveValue('000042 bp')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 42,
+        formattedValue: '000042 bp',
+      })
+    })
+
+    it('should run parse stages on a controlled formattedValue', async () => {
+      const user = userEvent.setup()
+      const ControlledInput = () => {
+        const [value, setValue] = useState('')
+        return (
+          <NumericInput
+            value={value}
+            onValueChange={(valueObject) => {
+              setValue(valueObject.formattedValue)
+              onValueChange(valueObject)
+            }}
+            plugins={[basisPoints]}
+          />
+        )
+      }
+      render(<ControlledInput />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '75')
+      expect(input).toHaveValue('75 bp')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 75,
+        formattedValue: '75 bp',
+      })
+    })
+
+    it('should reject an edit that fails validation', async () => {
+      const user = userEvent.setup()
+      const validate = vi.fn((value: string) => !value.startsWith('9'))
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          plugins={[{ name: 'no-leading-nine', validate }]}
+        />,
+      )
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '12')
+      input.setSelectionRange(0, 0)
+      await user.keyboard('9')
+      expect(validate).toHaveBeenLastCalledWith('912', {
+        groupSeparator: '',
+        decimalSeparator: '.',
+        minusSign: '-',
+      })
+      expect(input).toHaveValue('12')
+      expect(input.selectionStart).toBe(0)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 12,
+        formattedValue: '12',
+      })
+    })
+
+    it('should use a value returned by validation', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowNegative={true}
+          plugins={[{ validate: (value) => value.replace(/^-/, '') }]}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '-5')
+      expect(input).toHaveValue('5')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 5,
+        formattedValue: '5',
+      })
+    })
+
+    it('should validate the value of an exponent', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowExponent={true}
+          plugins={[
+            { validate: (value) => Number(value) <= 500 },
+            { validate: (value) => (value === '300' ? '250' : true) },
+          ]}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '5e2')
+      expect(input).toHaveValue('5e2')
+      await user.type(input, '1')
+      expect(input).toHaveValue('5e2')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 500,
+        formattedValue: '5e2',
+      })
+
+      await user.clear(input)
+      await user.type(input, '3e2')
+      expect(input).toHaveValue('250')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 250,
+        formattedValue: '250',
+      })
+    })
+
+    it('should run the stages after IME composition ends', async () => {
+      render(
+        <NumericInput onValueChange={onValueChange} plugins={[basisPoints]} />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.compositionStart(input)
+      fireEvent.change(input, { target: { value: '１２' } })
+      expect(input).toHaveValue('１２')
+      fireEvent.compositionEnd(input, { data: '１２' } as CompositionEvent)
+
+      await waitFor(() => {
+        expect(input).toHaveValue('12 bp')
+      })
+    })
+  })
+
+  describe('Keyboard stepping', () => {
+    it('should step by step with the arrow keys', async () => {
+      const user = userEvent.setup()
+      render(<NumericInput onValueChange={onValueChange} step={5} />)
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.keyboard('{ArrowUp}')
+      expect(input).toHaveValue('5')
+      await user.keyboard('{ArrowUp}{ArrowUp}{ArrowDown}')
+      expect(input).toHaveValue('10')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 10,
+        formattedValue: '10',
+      })
+    })
+
+    it('should leave the arrow keys alone without step', async () => {
+      const user = userEvent.setup()
+      render(<NumericInput onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '12')
+      await user.keyboard('{ArrowUp}')
+      expect(input).toHaveValue('12')
+      expect(onValueChange).toHaveBeenCalledTimes(2)
+    })
+
+    it('should step decimals exactly and keep the separator formatting', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          separator=","
+          step="0.1"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '999.9')
+      await user.keyboard('{ArrowUp}')
+      expect(input).toHaveValue('1,000')
+      await user.keyboard('{ArrowUp}{ArrowUp}')
+      expect(input).toHaveValue('1,000.2')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1000.2,
+        formattedValue: '1,000.2',
+      })
+    })
+
+    it('should apply the Shift, Alt and PageUp/PageDown multipliers', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          step={1}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.keyboard('{Shift>}{ArrowUp}{/Shift}')
+      expect(input).toHaveValue('10')
+      await user.keyboard('{Alt>}{ArrowUp}{/Alt}')
+      expect(input).toHaveValue('10.1')
+      await user.keyboard('{PageUp}')
+      expect(input).toHaveValue('20.1')
+      await user.keyboard('{PageDown}{PageDown}')
+      expect(input).toHaveValue('0.1')
+    })
+
+    it('should use custom stepMultipliers', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          step={1}
+          stepMultipliers={{ shift: 5, page: 100 }}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.keyboard('{Shift>}{ArrowUp}{/Shift}')
+      expect(input).toHaveValue('5')
+      await user.keyboard('{PageUp}')
+      expect(input).toHaveValue('105')
+    })
+
+    it('should round to maxDecimalPlaces and never step below it', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          maxDecimalPlaces={2}
+          step="0.001"
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1.5')
+      await user.keyboard('{ArrowUp}')
+      expect(input).toHaveValue('1.51')
+    })
+
+    it('should step whole numbers when decimals are off', async () => {
+      const user = userEvent.setup()
+      render(<NumericInput onValueChange={onValueChange} step={1} />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '7')
+      await user.keyboard('{Alt>}{ArrowDown}{/Alt}')
+      expect(input).toHaveValue('6')
+    })
+
+    it('should clamp to minValue/maxValue and stop at zero without allowNegative', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput onValueChange={onValueChange} step={10} maxValue={25} />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '3')
+      await user.keyboard('{ArrowDown}')
+      expect(input).toHaveValue('0')
+      await user.keyboard('{PageUp}')
+      expect(input).toHaveValue('25')
+
+      onValueChange.mockClear()
+      await user.keyboard('{ArrowUp}')
+      expect(input).toHaveValue('25')
+      expect(onValueChange).not.toHaveBeenCalled()
+    })
+
+    it('should step into negative values with allowNegative', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowNegative={true}
+          step={1}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.keyboard('{ArrowDown}{ArrowDown}')
+      expect(input).toHaveValue('-2')
+    })
+
+    it('should jump to minValue and maxValue with Home and End', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          separator=","
+          step={1}
+          minValue={10}
+          maxValue={5000}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '300')
+      await user.keyboard('{End}')
+      expect(input).toHaveValue('5,000')
+      await user.keyboard('{Home}')
+      expect(input).toHaveValue('10')
+    })
+
+    it('should keep Home and End as caret keys without bounds', async () => {
+      const user = userEvent.setup()
+      render(<NumericInput onValueChange={onValueChange} step={1} />)
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '300')
+      await user.keyboard('{Home}')
+      expect(input).toHaveValue('300')
+      expect(input.selectionStart).toBe(0)
+    })
+
+    it('should use a custom step function for non-linear scales', async () => {
+      const user = userEvent.setup()
+      // 1-2-5 scale: 1, 2, 5, 10, 20, 50, ...
+      const oneTwoFive = (value: number, direction: 1 | -1) => {
+        const scale = [1, 2, 5]
+        const magnitude = 10 ** Math.floor(Math.log10(Math.max(value, 1)))
+        const index = scale.indexOf(Math.round(value / magnitude))
+        if (index === -1) return direction > 0 ? magnitude * 10 : magnitude
+        const nextIndex = index + direction
+        if (nextIndex === scale.length) return magnitude * 10
+        if (nextIndex < 0) return (magnitude / 10) * 5
+        return scale[nextIndex] * magnitude
+      }
+      render(<NumericInput onValueChange={onValueChange} step={oneTwoFive} />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1')
+      await user.keyboard('{ArrowUp}')
+      expect(input).toHaveValue('2')
+      await user.keyboard('{ArrowUp}{ArrowUp}')
+      expect(input).toHaveValue('10')
+      await user.keyboard('{ArrowDown}')
+      expect(input).toHaveValue('5')
+    })
+
+    it('should pass the multiplier to the step function', async () => {
+      const user = userEvent.setup()
+      const stepFunction = vi.fn((value: number, direction: 1 | -1, multiplier: number) =>
+        value * 2 ** (direction * multiplier),
+      )
+      render(<NumericInput onValueChange={onValueChange} step={stepFunction} />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1')
+      await user.keyboard('{Shift>}{ArrowUp}{/Shift}')
+      expect(stepFunction).toHaveBeenLastCalledWith(1, 1, 10)
+      expect(input).toHaveValue('1024')
+    })
+
+    it('should step exact string values', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          valueType="string"
+          step={1}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '12345678901234567890')
+      await user.keyboard('{ArrowUp}')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '12345678901234567891',
+        formattedValue: '12345678901234567891',
+      })
+    })
+
+    it('should ignore stepping keys when readOnly', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericInput onValueChange={onValueChange} step={1} value={5} readOnly />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.keyboard('{ArrowUp}')
+      expect(input).toHaveValue('5')
+      expect(onValueChange).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Wheel behavior', () => {
+    it('should step once per wheel notch while focused', () => {
+      render(<NumericInput onValueChange={onValueChange} wheelBehavior="step" />)
+
+      const input = screen.getByRole('textbox')
+      input.focus()
+      fireEvent.wheel(input, { deltaY: -100 })
+      fireEvent.wheel(input, { deltaY: -100 })
+      expect(input).toHaveValue('2')
+      fireEvent.wheel(input, { deltaY: 100 })
+      expect(input).toHaveValue('1')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1,
+        formattedValue: '1',
+      })
+    })
+
+    it('should prevent page scrolling only while focused', () => {
+      render(<NumericInput onValueChange={onValueChange} wheelBehavior="step" />)
+
+      const input = screen.getByRole('textbox')
+      const unfocusedWheel = new WheelEvent('wheel', {
+        deltaY: -100,
+        bubbles: true,
+        cancelable: true,
+      })
+      fireEvent(input, unfocusedWheel)
+      expect(unfocusedWheel.defaultPrevented).toBe(false)
+      expect(input).toHaveValue('')
+
+      input.focus()
+      const focusedWheel = new WheelEvent('wheel', {
+        deltaY: -100,
+        bubbles: true,
+        cancelable: true,
+      })
+      fireEvent(input, focusedWheel)
+      expect(focusedWheel.defaultPrevented).toBe(true)
+      expect(input).toHaveValue('1')
+    })
+
+    it('should leave the wheel alone by default', () => {
+      render(<NumericInput onValueChange={onValueChange} step={1} />)
+
+      const input = screen.getByRole('textbox')
+      input.focus()
+      const wheel = new WheelEvent('wheel', { deltaY: -100, bubbles: true, cancelable: true })
+      fireEvent(input, wheel)
+      expect(wheel.defaultPrevented).toBe(false)
+      expect(input).toHaveValue('')
+    })
+
+    it('should add up small trackpad deltas into whole steps', () => {
+      render(<NumericInput onValueChange={onValueChange} wheelBehavior="step" step={5} />)
+
+      const input = screen.getByRole('textbox')
+      input.focus()
+      for (let i = 0; i < 9; i++) {
+        fireEvent.wheel(input, { deltaY: -10 })
+      }
+      expect(input).toHaveValue('')
+      fireEvent.wheel(input, { deltaY: -10 })
+      expect(input).toHaveValue('5')
+      // Reversing drops the movement left over from the other direction
+      fireEvent.wheel(input, { deltaY: -60 })
+      fireEvent.wheel(input, { deltaY: 60 })
+      expect(input).toHaveValue('5')
+    })
+
+    it('should take several steps for a large delta', () => {
+      render(<NumericInput onValueChange={onValueChange} wheelBehavior="step" />)
+
+      const input = screen.getByRole('textbox')
+      input.focus()
+      fireEvent.wheel(input, { deltaY: -300 })
+      expect(input).toHaveValue('3')
+    })
+
+    it('should read line and page delta modes', () => {
+      render(<NumericInput onValueChange={onValueChange} wheelBehavior="step" />)
+
+      const input = screen.getByRole('textbox')
+      input.focus()
+      fireEvent.wheel(input, { deltaY: -3, deltaMode: 1 })
+      expect(input).toHaveValue('1')
+      fireEvent.wheel(input, { deltaY: -1, deltaMode: 2 })
+      expect(input).toHaveValue('2')
+    })
+
+    it('should take fine steps with the fine behavior', () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          wheelBehavior="fine"
+          step={1}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      input.focus()
+      fireEvent.wheel(input, { deltaY: -100 })
+      fireEvent.wheel(input, { deltaY: -100 })
+      fireEvent.wheel(input, { deltaY: -100 })
+      expect(input).toHaveValue('0.3')
+    })
+
+    it('should respect maxDecimalPlaces and bounds', () => {
+      render(
+        <NumericInput
+          onValueChange={onValueChange}
+          allowDecimal={true}
+          maxDecimalPlaces={1}
+          wheelBehavior="fine"
+          step="0.25"
+          maxValue={0.2}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      input.focus()
+      fireEvent.wheel(input, { deltaY: -100 })
+      expect(input).toHaveValue('0.1')
+      fireEvent.wheel(input, { deltaY: -500 })
+      expect(input).toHaveValue('0.2')
+    })
+
+    it('should ignore pinch-to-zoom and readOnly inputs', () => {
+      const { rerender } = render(
+        <NumericInput onValueChange={onValueChange} wheelBehavior="step" />,
+      )
+
+      const input = screen.getByRole('textbox')
+      input.focus()
+      const pinch = new WheelEvent('wheel', {
+        deltaY: -100,
+        ctrlKey: true,
+        bubbles: true,
+        cancelable: true,
+      })
+      fireEvent(input, pinch)
+      expect(pinch.defaultPrevented).toBe(false)
+      expect(input).toHaveValue('')
+
+      rerender(<NumericInput onValueChange={onValueChange} wheelBehavior="step" readOnly />)
+      fireEvent.wheel(input, { deltaY: -100 })
+      expect(input).toHaveValue('')
+    })
+
+    it('should step horizontally with Shift', () => {
+      render(<NumericInput onValueChange={onValueChange} wheelBehavior="step" />)
+
+      const input = screen.getByRole('textbox')
+      input.focus()
+      fireEvent.wheel(input, { deltaX: -100, shiftKey: true })
+      expect(input).toHaveValue('1')
+      fireEvent.wheel(input, { deltaX: -100 })
+      expect(input).toHaveValue('1')
+    })
+  })
 })
@@ -1,48 +1,160 @@
 'use client'
 
+import type { ComponentProps } from 'react'
 import { useNumericInput } from './use-numeric-input'
-import type { NumericInputProps } from './numeric-input.types'
+import type { NumericInputProps, NumericValueType } from './numeric-input.types'
 
-const NumericInput = ({
+// Splits component props into useNumericInput options and the props left for the <input>
+export const splitNumericInputProps = <T extends NumericValueType>({
   value,
+  valueType,
   maxValue,
   minValue,
   separator,
+  locale,
+  numberingSystem,
+  decimalSeparator,
+  grouping,
+  prefix,
+  suffix,
+  currency,
+  currencyDisplay,
+  percent,
+  percentBounds,
   maxLength,
-  className,
   maxDecimalPlaces,
-  allowDecimal = false,
+  maxIntegerDigits,
+  maxSignificantDigits,
+  digitLimitBehavior,
+  roundingMode,
+  fixedDecimalScale,
+  magnitudeSuffixes,
+  blurredFormat,
+  allowExponent,
+  exponentDisplay,
+  kanjiNumerals,
+  characterMappings,
+  onPasteParse,
+  negativeStyle,
+  signDisplay,
+  plugins,
+  step,
+  stepMultipliers,
+  wheelBehavior,
+  scrubRef,
+  allowDecimal,
   allowNegative = false,
   onBlur,
+  onFocus,
   onValueChange,
   onCompositionEnd,
   onCompositionStart,
+  onPaste,
+  onDrop,
+  ...inputProps
+}: NumericInputProps<T>) =>
+  [
+    {
+      value,
+      valueType,
+      minValue,
+      maxValue,
+      separator,
+      locale,
+      numberingSystem,
+      decimalSeparator,
+      grouping,
+      prefix,
+      suffix,
+      currency,
+      currencyDisplay,
+      percent,
+      percentBounds,
+      maxLength,
+      allowDecimal,
+      allowNegative,
+      maxDecimalPlaces,
+      maxIntegerDigits,
+      maxSignificantDigits,
+      digitLimitBehavior,
+      roundingMode,
+      fixedDecimalScale,
+      magnitudeSuffixes,
+      blurredFormat,
+      allowExponent,
+      exponentDisplay,
+      kanjiNumerals,
+      characterMappings,
+      onBlur,
+      onFocus,
+      onValueChange,
+      onCompositionEnd,
+      onCompositionStart,
+      onPaste,
+      onDrop,
+      onPasteParse,
+      negativeStyle,
+      signDisplay,
+      plugins,
+      step,
+      stepMultipliers,
+      wheelBehavior,
+      scrubRef,
+    },
+    inputProps,
+  ] as const
+
+type NumericInputElementProps = Omit<ComponentProps<'input'>, 'value' | 'step'> & {
+  numericInput: ReturnType<typeof useNumericInput>
+}
+
+// The <input> wired to useNumericInput, shared by NumericInput and NumericStepper
+export const NumericInputElement = ({
+  numericInput,
+  className,
   onKeyDown,
+  onSelect,
   ...props
-}: NumericInputProps) => {
+}: NumericInputElementProps) => {
   const {
     inputRef,
     inputMode,
+    allowDecimal,
     displayValue,
+    isNegative,
+    groupSeparator,
+    decimalSeparator: decimalSymbol,
+    getEditableRange,
     hasProcessedComposition,
+    isMagnitudePending,
+    handleFocus,
     handleBlur,
     handleValueChange,
     handleCompositionEnd,
     handleCompositionStart,
-  } = useNumericInput({
-    value,
-    minValue,
-    maxValue,
-    separator,
-    maxLength,
-    allowDecimal,
-    allowNegative,
-    maxDecimalPlaces,
-    onBlur,
-    onValueChange,
-    onCompositionEnd,
-    onCompositionStart,
-  })
+    handlePaste,
+    handleDrop,
+    handleStepKey,
+  } = numericInput
+
+  const isAffixDeletion = (target: HTMLInputElement, key: string) => {
+    const selectionStart = target.selectionStart ?? 0
+    const selectionEnd = target.selectionEnd ?? 0
+    if (selectionStart !== selectionEnd) return false
+    const { start, end } = getEditableRange(target.value)
+    return key === 'Backspace'
+      ? start > 0 && selectionStart <= start
+      : end < target.value.length && selectionStart >= end
+  }
+
+  // Backspace at the start of the number removes a sign written outside the prefix and suffix,
+  // as it would delete a minus: "-$5" → "$5", "($5.00)" → "$5.00"
+  const isOuterSignDeletion = (target: HTMLInputElement, key: string) => {
+    const selectionStart = target.selectionStart ?? 0
+    if (key !== 'Backspace' || selectionStart !== target.selectionEnd) return false
+    const { start, sign } = getEditableRange(target.value)
+    return sign !== '' && selectionStart === start
+  }
 
   return (
     <input
@@ -50,12 +162,86 @@ const NumericInput = ({
       type="text"
       inputMode={inputMode}
       value={displayValue}
+      data-negative={isNegative || undefined}
       className={className}
       onCompositionEnd={handleCompositionEnd}
       onCompositionStart={handleCompositionStart}
+      onFocus={handleFocus}
       onBlur={handleBlur}
+      onPaste={handlePaste}
+      onDrop={handleDrop}
+      onSelect={(e) => {
+        // Keep the caret and selection out of the prefix and suffix
+        const target = e.currentTarget
+        const { start, end } = getEditableRange(target.value)
+        const selectionStart = target.selectionStart ?? 0
+        const selectionEnd = target.selectionEnd ?? 0
+        const clampedStart = Math.min(Math.max(selectionStart, start), end)
+        const clampedEnd = Math.min(Math.max(selectionEnd, start), end)
+
+        if (clampedStart !== selectionStart || clampedEnd !== selectionEnd) {
+          target.setSelectionRange(clampedStart, clampedEnd)
+        }
+
+        onSelect?.(e)
+      }}
       onKeyDown={(e) => {
-        if ((e.key === 'Backspace' || e.key === 'Delete') && separator) {
+        // Enter commits a magnitude suffix that is still ambiguous ("2m" when "mm" exists)
+        if (e.key === 'Enter' && isMagnitudePending) {
+          handleValueChange(e.currentTarget.value, { commit: true })
+        }
+
+        if (handleStepKey(e)) {
+          // Stepping keys change the value instead of moving the caret
+          e.preventDefault()
+        } else if (
+          // The numpad decimal key types "." or "," depending on the keyboard layout,
+          // so insert the configured decimal symbol instead
+          e.code === 'NumpadDecimal' &&
+          allowDecimal &&
+          !e.nativeEvent.isComposing
+        ) {
+          e.preventDefault()
+          const target = e.currentTarget
+          const selectionStart = target.selectionStart ?? target.value.length
+          const selectionEnd = target.selectionEnd ?? selectionStart
+          const nextValue =
+            target.value.slice(0, selectionStart) +
+            decimalSymbol +
+            target.value.slice(selectionEnd)
+          const caretPosition = selectionStart + decimalSymbol.length
+
+          handleValueChange(nextValue, {
+            selectionContext: {
+              displayValue: nextValue,
+              selectionStart: caretPosition,
+              selectionEnd: caretPosition,
+            },
+          })
+        } else if (isOuterSignDeletion(e.currentTarget, e.key)) {
+          e.preventDefault()
+          const target = e.currentTarget
+          const { start, sign } = getEditableRange(target.value)
+          // Accounting parentheses go as a pair
+          const nextValue = target.value.slice(
+            sign.length,
+            sign === '(' && target.value.endsWith(')') ? -1 : undefined,
+          )
+
+          handleValueChange(nextValue, {
+            selectionContext: {
+              displayValue: nextValue,
+              selectionStart: start - sign.length,
+              selectionEnd: start - sign.length,
+            },
+          })
+        } else if (
+          (e.key === 'Backspace' || e.key === 'Delete') &&
+          isAffixDeletion(e.currentTarget, e.key)
+        ) {
+          // Backspace/Delete at the edge of the number would delete prefix/suffix text
+          e.preventDefault()
+        } else if ((e.key === 'Backspace' || e.key === 'Delete') && groupSeparator) {
           const target = e.currentTarget
           const selectionStart = target.selectionStart ?? 0
           const selectionEnd = target.selectionEnd ?? 0
@@ -64,12 +250,12 @@ const NumericInput = ({
           if (e.key === 'Backspace') {
             if (!hasSelection && selectionStart > 0) {
               const previousChar = target.value[selectionStart - 1]
-              if (previousChar === separator) {
+              if (previousChar === groupSeparator) {
                 let digitIndexToDelete = selectionStart - 2
 
                 while (
                   digitIndexToDelete >= 0 &&
-                  !/\d/.test(target.value[digitIndexToDelete] ?? '')
+                  !/\p{Nd}/u.test(target.value[digitIndexToDelete] ?? '')
                 ) {
                   digitIndexToDelete--
                 }
@@ -93,12 +279,12 @@ const NumericInput = ({
           } else if (e.key === 'Delete') {
             if (!hasSelection && selectionStart < target.value.length) {
               const currentChar = target.value[selectionStart]
-              if (currentChar === separator) {
+              if (currentChar === groupSeparator) {
                 let digitIndexToDelete = selectionStart + 1
 
                 while (
                   digitIndexToDelete < target.value.length &&
-                  !/\d/.test(target.value[digitIndexToDelete] ?? '')
+                  !/\p{Nd}/u.test(target.value[digitIndexToDelete] ?? '')
                 ) {
                   digitIndexToDelete++
                 }
@@ -131,7 +317,9 @@ const NumericInput = ({
           return
         }
         const target = e.target
+        const { inputType } = e.nativeEvent as InputEvent
         handleValueChange(target.value, {
+          round: inputType === 'insertFromPaste' || inputType === 'insertFromDrop',
           selectionContext: {
             displayValue: target.value,
             selectionStart: target.selectionStart ?? 0,
@@ -144,4 +332,13 @@ const NumericInput = ({
   )
 }
 
+const NumericInput = <T extends NumericValueType = 'number'>(
+  props: NumericInputProps<T>,
+) => {
+  const [options, inputProps] = splitNumericInputProps(props)
+  const numericInput = useNumericInput(options)
+
+  return <NumericInputElement numericInput={numericInput} {...inputProps} />
+}
+
 export { NumericInput }
@@ -1,16 +1,178 @@
-import type { ComponentProps } from 'react'
+import type { ComponentProps, ReactNode, Ref } from 'react'
 
-export type NumericInputValue = {
-  value: number | undefined
+export type NumericValueType = 'number' | 'string' | 'bigint'
+
+type NumericValueTypeMap = {
+  number: number
+  string: string
+  bigint: bigint
+}
+
+export type NumericInputValue<T extends NumericValueType = 'number'> = {
+  value: NumericValueTypeMap[T] | undefined
   formattedValue: string
 }
 
-export type NumericInputProps = ComponentProps<'input'> & {
-  onValueChange?: (valueObject: NumericInputValue) => void
+export type NumericGroupingPattern = {
+  primary: number
+  secondary?: number
+  minimumGroupingDigits?: number
+}
+
+export type NumericGrouping =
+  | 'thousands'
+  | 'lakh'
+  | 'wan'
+  | 'min2'
+  | NumericGroupingPattern
+
+export type NumericSuffix =
+  | string
+  | Partial<Record<Intl.LDMLPluralRule, string>>
+
+export type NumericCurrencyDisplay = 'symbol' | 'narrowSymbol' | 'code'
+
+export type NumericMagnitudeSuffixes = Record<string, number>
+
+export type NumericBlurredFormat =
+  | 'compact'
+  | Intl.NumberFormatOptions
+  | ((value: number, formattedValue: string) => string)
+
+export type NumericExponentDisplay = 'auto' | 'always' | 'never'
+
+export type NumericRoundingMode = 'trunc' | 'halfUp' | 'halfEven' | 'ceil' | 'floor'
+
+export type NumericNegativeStyle = 'minus' | 'typographic' | 'parentheses'
+
+export type NumericSignDisplay = 'auto' | 'always' | 'exceptZero'
+
+// Multipliers for keyboard stepping: Shift for larger steps, Alt for smaller ones,
+// PageUp/PageDown for big steps
+export type NumericStepMultipliers = {
+  shift?: number
+  alt?: number
+  page?: number
+}
+
+// Mouse wheel and trackpad stepping while the input is focused:
+// 'step' moves one step per wheel notch, 'fine' a fine step (the alt multiplier)
+export type NumericWheelBehavior = 'none' | 'step' | 'fine'
+
+// Custom step for non-linear scales (1-2-5, logarithmic): returns the value after value
+// direction is 1 for up and -1 for down; multiplier comes from the modifier key (1 without one)
+export type NumericStepFunction = (
+  value: number,
+  direction: 1 | -1,
+  multiplier: number,
+) => number
+
+// Handle a NumericInput exposes through scrubRef, driven by useNumericScrub
+// scrubBy takes whole steps (negative to step down) and the modifier keys held while dragging
+export type NumericScrubTarget = {
+  startScrub: (commitOnRelease: boolean) => void
+  scrubBy: (steps: number, modifiers: { shiftKey: boolean; altKey: boolean }) => void
+  endScrub: () => void
+}
+
+// Symbols in effect for the input, passed to every plugin stage
+export type NumericPluginContext = {
+  groupSeparator: string
+  decimalSeparator: string
+  minusSign: string
+}
+
+// Custom stages around the built-in parse/format pipeline; plugins run in array order
+// parse: typed text (or a string value prop) without prefix/suffix, before the built-in parsing
+// validate: a complete value as a decimal string ("-1234.5") before min/max clamping;
+//   false rejects the edit, a string replaces the value
+// format: the formatted number before sign style, numbering system and prefix/suffix
+export type NumericInputPlugin = {
+  name?: string
+  parse?: (text: string, context: NumericPluginContext) => string
+  validate?: (value: string, context: NumericPluginContext) => boolean | string
+  format?: (text: string, context: NumericPluginContext) => string
+}
+
+// Result of reading pasted or dropped text: value is a canonical decimal string ("-1234.56")
+// isAmbiguous is set when a single separator could be either grouping or decimal ("1,234")
+export type NumericPasteParse = {
+  text: string
+  value: string
+  isAmbiguous: boolean
+}
+
+export type NumericInputProps<T extends NumericValueType = 'number'> = Omit<
+  ComponentProps<'input'>,
+  'value' | 'step'
+> & {
+  value?: ComponentProps<'input'>['value'] | bigint
+  valueType?: T
+  onValueChange?: (valueObject: NumericInputValue<T>) => void
   separator?: string
+  locale?: string
+  numberingSystem?: string
+  decimalSeparator?: string
+  grouping?: NumericGrouping
+  prefix?: string
+  suffix?: NumericSuffix
+  currency?: string
+  currencyDisplay?: NumericCurrencyDisplay
+  percent?: boolean
+  percentBounds?: 'fraction' | 'percent'
   allowDecimal?: boolean
   allowNegative?: boolean
-  minValue?: number
-  maxValue?: number
+  minValue?: number | string | bigint
+  maxValue?: number | string | bigint
   maxDecimalPlaces?: number
+  maxIntegerDigits?: number
+  maxSignificantDigits?: number
+  digitLimitBehavior?: 'truncate' | 'reject'
+  roundingMode?: NumericRoundingMode
+  fixedDecimalScale?: boolean
+  magnitudeSuffixes?: boolean | NumericMagnitudeSuffixes
+  blurredFormat?: NumericBlurredFormat
+  allowExponent?: boolean
+  exponentDisplay?: NumericExponentDisplay
+  kanjiNumerals?: boolean
+  characterMappings?: Record<string, string>
+  negativeStyle?: NumericNegativeStyle
+  signDisplay?: NumericSignDisplay
+  plugins?: readonly NumericInputPlugin[]
+  step?: number | string | NumericStepFunction
+  stepMultipliers?: NumericStepMultipliers
+  wheelBehavior?: NumericWheelBehavior
+  scrubRef?: Ref<NumericScrubTarget>
+  onPasteParse?: (parse: NumericPasteParse) => boolean | void
+}
+
+// NumericInput with increment/decrement buttons; step defaults to 1
+export type NumericStepperProps<T extends NumericValueType = 'number'> =
+  NumericInputProps<T> & {
+    incrementLabel?: string
+    decrementLabel?: string
+    incrementContent?: ReactNode
+    decrementContent?: ReactNode
+    containerClassName?: string
+    buttonClassName?: string
+  }
+
+// Reported by PatternNumericInput: value holds the unmasked digits ("1234567890"),
+// formattedValue the masked text ("123-4567890"), isComplete whether every slot is filled
+export type PatternNumericInputValue = {
+  value: string
+  formattedValue: string
+  isComplete: boolean
+}
+
+export type PatternNumericInputProps = Omit<
+  ComponentProps<'input'>,
+  'value' | 'pattern'
+> & {
+  pattern: string
+  value?: string
+  onValueChange?: (valueObject: PatternNumericInputValue) => void
+  patternChar?: string
+  placeholderChar?: string
+  characterMappings?: Record<string, string>
 }
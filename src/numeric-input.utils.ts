@@ -1,18 +1,216 @@
+import type {
+  NumericCurrencyDisplay,
+  NumericExponentDisplay,
+  NumericGrouping,
+  NumericGroupingPattern,
+  NumericMagnitudeSuffixes,
+  NumericNegativeStyle,
+  NumericPasteParse,
+  NumericRoundingMode,
+  NumericSignDisplay,
+  NumericSuffix,
+} from './numeric-input.types'
+
+// Ideographic full stops (。, ｡) that Pinyin IMEs produce for the period key
+export const CJK_DECIMAL_MARKS = ['\u3002', '\uff61']
+
 /**
  * Converts full-width Japanese characters to half-width equivalents
- * Supports: numbers (０-９), period (．), comma (，), minus (－)
+ * Supports: numbers (０-９), period (．), comma (，), minus (－), plus (＋),
+ * ideographic space and wave dash
+ * CJK punctuation follows the given symbols: the ideographic full stop (。) is read as the
+ * decimal mark and the ideographic comma (、) as the grouping mark
+ * Custom mappings are applied first, so they can also override the built-in ones
  */
-export const convertFullWidthToHalfWidth = (str: string): string => {
-  return str
+export const convertFullWidthToHalfWidth = (
+  str: string,
+  symbols: Pick<NumberSymbols, 'group' | 'decimal'> = DEFAULT_NUMBER_SYMBOLS,
+  mappings?: Record<string, string>,
+): string => {
+  let result = str
+  if (mappings) {
+    // Longest keys first so multi-character mappings win over their prefixes
+    const keys = Object.keys(mappings)
+      .filter((key) => key !== '')
+      .sort((a, b) => b.length - a.length)
+    for (const key of keys) {
+      result = result.split(key).join(mappings[key])
+    }
+  }
+
+  return result
     .replace(/[０-９]/g, (char) => {
       // Convert full-width numbers (０-９) to half-width (0-9)
       return String.fromCharCode(char.charCodeAt(0) - 0xfee0)
     })
     .replace(/[．]/g, '.') // Convert full-width period (．) to half-width (.)
     .replace(/[，]/g, ',') // Convert full-width comma (，) to half-width (,)
+    .replace(new RegExp(`[${CJK_DECIMAL_MARKS.join('')}]`, 'g'), symbols.decimal) // Ideographic full stop (。, ｡) from Pinyin IMEs marks the decimal
+    .replace(/[、､]/g, symbols.group) // Ideographic comma (、, ､) separates digit groups
     .replace(/[－]/g, '-') // Convert full-width minus (－, U+FF0D) to half-width (-)
     .replace(/[ー]/g, '-') // Convert katakana long vowel mark (ー, U+30FC) to minus (-) when used as minus
     .replace(/[−]/g, '-') // Convert mathematical minus sign (−, U+2212) to half-width (-)
+    .replace(/[＋]/g, '+') // Convert full-width plus (＋, U+FF0B) to half-width (+)
+    .replace(/[\u3000]/g, ' ') // Convert ideographic space (U+3000) to a regular space
+    .replace(/[〜～]/g, '~') // Convert wave dash (〜, U+301C) and full-width tilde (～, U+FF5E) to tilde (~)
+}
+
+const DECIMAL_DIGIT_PATTERN = /\p{Nd}/u
+const digitValueCache = new Map<string, string>()
+
+/**
+ * Value of a Unicode decimal digit (\p{Nd}) as an ASCII digit ("٣" → "3", "৭" → "7")
+ * Unicode encodes decimal digits in contiguous 0-9 runs, so the value is the offset from the run start
+ */
+const toAsciiDigit = (char: string): string => {
+  const cached = digitValueCache.get(char)
+  if (cached !== undefined) {
+    return cached
+  }
+  const codePoint = char.codePointAt(0) ?? 0
+  let runStart = codePoint
+  while (DECIMAL_DIGIT_PATTERN.test(String.fromCodePoint(runStart - 1))) {
+    runStart--
+  }
+  const digit = String((codePoint - runStart) % 10)
+  digitValueCache.set(char, digit)
+  return digit
+}
+
+// Decimal and grouping marks that go with non-Latin digits (Arabic/Persian momayyez and thousands mark)
+export const LOCAL_DECIMAL_MARKS = ['\u066b']
+export const LOCAL_GROUP_MARKS = ['\u066c']
+
+/**
+ * Converts every Unicode decimal digit (Arabic-Indic ٠-٩, Persian ۰-۹, Devanagari ०-९,
+ * Bengali, Thai, full-width and others) to ASCII 0-9
+ * Local decimal and grouping marks become the given symbols; a grouping mark is dropped when there is no group symbol
+ */
+export const normalizeDigits = (
+  str: string,
+  symbols: Pick<NumberSymbols, 'group' | 'decimal'> = DEFAULT_NUMBER_SYMBOLS,
+): string => {
+  return Array.from(str, (char) => {
+    if (DECIMAL_DIGIT_PATTERN.test(char)) {
+      return /[0-9]/.test(char) ? char : toAsciiDigit(char)
+    }
+    if (LOCAL_DECIMAL_MARKS.includes(char)) {
+      return symbols.decimal
+    }
+    if (LOCAL_GROUP_MARKS.includes(char)) {
+      return symbols.group
+    }
+    return char
+  }).join('')
+}
+
+const KANJI_DIGITS: Record<string, string> = {
+  〇: '0',
+  零: '0',
+  一: '1',
+  二: '2',
+  三: '3',
+  四: '4',
+  五: '5',
+  六: '6',
+  七: '7',
+  八: '8',
+  九: '9',
+}
+// Powers of ten: 十/百/千 multiply within a 4-digit section, 万/億/兆 multiply whole sections
+const KANJI_SMALL_UNITS: Record<string, number> = { 十: 1, 百: 2, 千: 3 }
+const KANJI_LARGE_UNITS: Record<string, number> = { 万: 4, 億: 8, 兆: 12 }
+const KANJI_NUMERAL_PATTERN = /^(-|マイナス)?([0-9〇零一二三四五六七八九十百千万億兆]+)$/
+
+/**
+ * Parses a kanji numeral into a decimal string, or undefined when text isn't one
+ * Supports positional (二〇二六 → "2026") and multiplicative (三万五千 → "35000") forms,
+ * ASCII digits mixed with units (12万 → "120000") and a leading "-" or マイナス
+ */
+export const parseKanjiNumeral = (text: string): string | undefined => {
+  const match = text.match(KANJI_NUMERAL_PATTERN)
+  if (!match || /^[0-9]+$/.test(match[2])) {
+    return undefined
+  }
+
+  let total = 0n
+  let section = 0n
+  let digits = ''
+  let lastSmallUnit = Number.POSITIVE_INFINITY
+  let lastLargeUnit = Number.POSITIVE_INFINITY
+
+  for (const char of match[2]) {
+    const digit = KANJI_DIGITS[char] ?? (/[0-9]/.test(char) ? char : undefined)
+    if (digit !== undefined) {
+      digits += digit
+      continue
+    }
+
+    const smallUnit = KANJI_SMALL_UNITS[char]
+    if (smallUnit !== undefined) {
+      // Units must descend within a section: 三千五百 but not 五百三千
+      if (smallUnit >= lastSmallUnit) {
+        return undefined
+      }
+      section += BigInt(digits || '1') * 10n ** BigInt(smallUnit)
+      digits = ''
+      lastSmallUnit = smallUnit
+      continue
+    }
+
+    const largeUnit = KANJI_LARGE_UNITS[char]
+    if (largeUnit >= lastLargeUnit) {
+      return undefined
+    }
+    const sectionValue = section + BigInt(digits || (section === 0n ? '1' : '0'))
+    total += sectionValue * 10n ** BigInt(largeUnit)
+    section = 0n
+    digits = ''
+    lastSmallUnit = Number.POSITIVE_INFINITY
+    lastLargeUnit = largeUnit
+  }
+
+  const result = total + section + BigInt(digits || '0')
+  return match[1] && result !== 0n ? `-${result}` : String(result)
+}
+
+const numberingSystemDigitsCache = new Map<string, string[]>()
+
+/**
+ * The digits 0-9 of an Intl numbering system ("arab" → ٠-٩, "fullwide" → ０-９)
+ * Unsupported or invalid systems fall back to Latin digits
+ */
+export const getNumberingSystemDigits = (numberingSystem: string): string[] => {
+  const cached = numberingSystemDigitsCache.get(numberingSystem)
+  if (cached) {
+    return cached
+  }
+  let digits = Array.from('0123456789')
+  try {
+    const formatter = new Intl.NumberFormat('en', {
+      numberingSystem,
+      useGrouping: false,
+    })
+    digits = digits.map((digit) => formatter.format(Number(digit)))
+  } catch {
+    // Invalid numbering system identifier: keep Latin digits
+  }
+  numberingSystemDigitsCache.set(numberingSystem, digits)
+  return digits
+}
+
+/**
+ * Writes the ASCII digits of text in a numbering system; other characters are kept
+ */
+export const toNumberingSystem = (
+  text: string,
+  numberingSystem?: string,
+): string => {
+  if (!numberingSystem || numberingSystem === 'latn') {
+    return text
+  }
+  const digits = getNumberingSystemDigits(numberingSystem)
+  return text.replace(/[0-9]/g, (digit) => digits[Number(digit)] ?? digit)
 }
 
 /**
@@ -37,38 +235,822 @@ export const normalizeMinusSign = (str: string): string => {
 }
 
 /**
- * Parses a value prop (string or number) to a number, removing separator if present
+ * Styles the sign of localized numeric text: a minus before the first digit becomes the
+ * typographic minus (U+2212) or accounting parentheses around the whole text, and positive
+ * text gets "+" at plusIndex with signDisplay 'always' (or 'exceptZero' for non-zero values)
+ */
+export const applySignStyle = (
+  text: string,
+  minusSign: string,
+  negativeStyle: NumericNegativeStyle = 'minus',
+  signDisplay: NumericSignDisplay = 'auto',
+  plusIndex = 0,
+): string => {
+  if (text === '') {
+    return text
+  }
+  const firstDigit = text.search(/\p{Nd}/u)
+  const signEnd = firstDigit === -1 ? text.length : firstDigit
+  const minusIndex = [minusSign, '-', '\u2212']
+    .map((sign) => text.slice(0, signEnd).indexOf(sign))
+    .find((index) => index !== -1)
+
+  if (minusIndex !== undefined) {
+    const minusLength = text.startsWith(minusSign, minusIndex) ? minusSign.length : 1
+    const unsigned = text.slice(0, minusIndex) + text.slice(minusIndex + minusLength)
+    if (negativeStyle === 'parentheses') {
+      return `(${unsigned})`
+    }
+    if (negativeStyle === 'typographic') {
+      return `${text.slice(0, minusIndex)}\u2212${text.slice(minusIndex + minusLength)}`
+    }
+    return text
+  }
+
+  if (signDisplay === 'always' || (signDisplay === 'exceptZero' && /[1-9]/.test(text))) {
+    return `${text.slice(0, plusIndex)}+${text.slice(plusIndex)}`
+  }
+  return text
+}
+
+/**
+ * Reads sign decorations back into a leading "-": the typographic minus (U+2212), accounting
+ * parentheses ("(1,234)", or just a typed "(" when allowed) and an explicit "+", which is dropped
+ */
+export const normalizeSignDisplay = (
+  text: string,
+  allowParentheses = true,
+): string => {
+  let result = text.replace(/\u2212/g, '-').replace(/^\+/, '')
+  if (allowParentheses && result.includes('(')) {
+    result = `-${result.replace(/[()]/g, '').replace(/^-/, '')}`
+  }
+  return result
+}
+
+/**
+ * Symbols used to render and read back a number: grouping separator, decimal point and minus sign
+ */
+export type NumberSymbols = {
+  group: string
+  decimal: string
+  minusSign: string
+}
+
+export const DEFAULT_NUMBER_SYMBOLS: NumberSymbols = {
+  group: '',
+  decimal: '.',
+  minusSign: '-',
+}
+
+/**
+ * Resolves the locale used for formatting.
+ * "auto" and locales unsupported by Intl fall back to navigator.language, then to en-US.
+ */
+export const resolveLocale = (locale?: string): string => {
+  if (locale && locale !== 'auto') {
+    try {
+      const [supported] = Intl.NumberFormat.supportedLocalesOf(locale)
+      if (supported) return supported
+    } catch {
+      // Invalid language tag, fall through to the browser language
+    }
+  }
+  if (typeof navigator !== 'undefined' && navigator.language) {
+    return navigator.language
+  }
+  return 'en-US'
+}
+
+const localeSymbolsCache = new Map<string, NumberSymbols>()
+
+/**
+ * Reads grouping, decimal and minus symbols for a locale from Intl.NumberFormat#formatToParts
+ */
+export const getLocaleSymbols = (locale?: string): NumberSymbols => {
+  const resolvedLocale = resolveLocale(locale)
+  const cached = localeSymbolsCache.get(resolvedLocale)
+  if (cached) return cached
+
+  const parts = new Intl.NumberFormat(resolvedLocale).formatToParts(-1234567.8)
+  const findPart = (type: Intl.NumberFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value
+
+  const symbols: NumberSymbols = {
+    group: findPart('group') ?? DEFAULT_NUMBER_SYMBOLS.group,
+    decimal: findPart('decimal') ?? DEFAULT_NUMBER_SYMBOLS.decimal,
+    minusSign: findPart('minusSign') ?? DEFAULT_NUMBER_SYMBOLS.minusSign,
+  }
+  localeSymbolsCache.set(resolvedLocale, symbols)
+  return symbols
+}
+
+const GROUPING_PATTERNS: Record<Exclude<NumericGrouping, object>, NumericGroupingPattern> = {
+  thousands: { primary: 3 },
+  lakh: { primary: 3, secondary: 2 },
+  wan: { primary: 4 },
+  min2: { primary: 3, minimumGroupingDigits: 2 },
+}
+
+const localeGroupingCache = new Map<string, NumericGroupingPattern>()
+
+/**
+ * Reads digit group sizes and minimum grouping digits for a locale from Intl.NumberFormat
+ * (e.g. en-IN groups as 12,34,56,789 and es-ES leaves 1000 ungrouped)
+ */
+export const getLocaleGrouping = (locale?: string): NumericGroupingPattern => {
+  const resolvedLocale = resolveLocale(locale)
+  const cached = localeGroupingCache.get(resolvedLocale)
+  if (cached) return cached
+
+  const formatter = new Intl.NumberFormat(resolvedLocale)
+  const integerGroups = formatter
+    .formatToParts(12345678)
+    .filter((part) => part.type === 'integer')
+    .map((part) => part.value.length)
+
+  let pattern = GROUPING_PATTERNS.thousands
+  if (integerGroups.length > 1) {
+    const primary = integerGroups[integerGroups.length - 1]
+    const secondary =
+      integerGroups.length > 2 ? integerGroups[integerGroups.length - 2] : primary
+    const groupsThousand = formatter
+      .formatToParts(10 ** primary)
+      .some((part) => part.type === 'group')
+    pattern = {
+      primary,
+      secondary,
+      minimumGroupingDigits: groupsThousand ? 1 : 2,
+    }
+  }
+  localeGroupingCache.set(resolvedLocale, pattern)
+  return pattern
+}
+
+/**
+ * Resolves a grouping option to explicit group sizes
+ */
+export const resolveGrouping = (
+  grouping: NumericGrouping = 'thousands',
+): NumericGroupingPattern => {
+  return typeof grouping === 'string' ? GROUPING_PATTERNS[grouping] : grouping
+}
+
+/**
+ * Inserts the separator between digit groups of an unsigned integer string.
+ * The primary size applies to the rightmost group, the secondary size to every group left of it.
+ * Grouping is skipped until the leftmost group would have minimumGroupingDigits digits.
+ */
+export const groupIntegerDigits = (
+  digits: string,
+  separator: string,
+  grouping: NumericGroupingPattern,
+): string => {
+  const { primary, secondary = primary, minimumGroupingDigits = 1 } = grouping
+  if (
+    !separator ||
+    primary <= 0 ||
+    secondary <= 0 ||
+    digits.length < primary + minimumGroupingDigits
+  ) {
+    return digits
+  }
+
+  const groups = [digits.slice(-primary)]
+  let rest = digits.slice(0, -primary)
+  while (rest.length > secondary) {
+    groups.unshift(rest.slice(-secondary))
+    rest = rest.slice(0, -secondary)
+  }
+  if (rest) {
+    groups.unshift(rest)
+  }
+  return groups.join(separator)
+}
+
+const isWhitespaceSeparator = (str: string): boolean =>
+  /^[\s\u00a0\u202f]+$/.test(str)
+
+/**
+ * Converts localized text to the canonical form used internally ("-1234.5"):
+ * removes grouping separators and maps the decimal point and minus sign.
+ * Grouping is only removed when it cannot be confused with the decimal point.
+ */
+export const delocalizeNumericInput = (
+  input: string,
+  symbols: Partial<NumberSymbols>,
+): string => {
+  const { group, decimal = '.', minusSign = '-' } = symbols
+  let result = input
+
+  if (group && group !== decimal) {
+    result = isWhitespaceSeparator(group)
+      ? result.replace(/[\s\u00a0\u202f]/g, '')
+      : result.split(group).join('')
+  }
+  if (minusSign !== '-') {
+    result = result.split(minusSign).join('-')
+  }
+  if (decimal !== '.') {
+    result = result.split(decimal).join('.')
+  }
+
+  return result
+}
+
+/**
+ * Maps the canonical decimal point and minus sign to their localized symbols
+ */
+export const localizeNumericString = (
+  value: string,
+  symbols: Partial<NumberSymbols>,
+): string => {
+  const { decimal = '.', minusSign = '-' } = symbols
+  let result = value
+  if (minusSign !== '-') {
+    result = result.replace(/-/g, minusSign)
+  }
+  if (decimal !== '.') {
+    result = result.replace(/\./g, decimal)
+  }
+  return result
+}
+
+export type AffixFormat = {
+  prefix: string
+  suffix: string
+  // Whether the sign goes between the prefix and the number ("€ -5,00") instead of before the prefix ("-$5.00")
+  signAfterPrefix: boolean
+}
+
+export type CurrencyFormat = AffixFormat & {
+  minorUnits: number
+}
+
+/**
+ * Splits formatted parts into the text before and after the number
+ */
+const getAffixesFromParts = (
+  parts: Intl.NumberFormatPart[],
+): Omit<AffixFormat, 'signAfterPrefix'> => {
+  const isNumberPart = (part: Intl.NumberFormatPart) =>
+    part.type === 'integer' || part.type === 'decimal' || part.type === 'fraction'
+  const firstNumberIndex = parts.findIndex(isNumberPart)
+  const lastNumberIndex = parts.length - 1 - [...parts].reverse().findIndex(isNumberPart)
+  const joinParts = (selected: Intl.NumberFormatPart[]) =>
+    selected.map((part) => part.value).join('')
+
+  return {
+    prefix: joinParts(parts.slice(0, firstNumberIndex)),
+    suffix: joinParts(parts.slice(lastNumberIndex + 1)),
+  }
+}
+
+/**
+ * Reads from a formatted negative number whether the minus sign follows the
+ * currency or percent symbol ("€ -5,00", "CHF-5.00") or comes first ("-$5.00", "-%5")
+ */
+const isSignAfterSymbol = (negativeParts: Intl.NumberFormatPart[]): boolean => {
+  const signIndex = negativeParts.findIndex((part) => part.type === 'minusSign')
+  const symbolIndex = negativeParts.findIndex(
+    (part) => part.type === 'currency' || part.type === 'percentSign',
+  )
+  return signIndex !== -1 && symbolIndex !== -1 && symbolIndex < signIndex
+}
+
+const currencyFormatCache = new Map<string, CurrencyFormat>()
+
+/**
+ * Reads currency symbol placement and minor units (0 for JPY, 2 for USD, 3 for KWD)
+ * for an ISO 4217 code from Intl.NumberFormat
+ */
+export const getCurrencyFormat = (
+  currency: string,
+  locale?: string,
+  currencyDisplay: NumericCurrencyDisplay = 'symbol',
+): CurrencyFormat => {
+  const resolvedLocale = resolveLocale(locale)
+  const cacheKey = `${resolvedLocale}|${currency}|${currencyDisplay}`
+  const cached = currencyFormatCache.get(cacheKey)
+  if (cached) return cached
+
+  const formatter = new Intl.NumberFormat(resolvedLocale, {
+    style: 'currency',
+    currency,
+    currencyDisplay,
+  })
+  const currencyFormat: CurrencyFormat = {
+    ...getAffixesFromParts(formatter.formatToParts(1)),
+    signAfterPrefix: isSignAfterSymbol(formatter.formatToParts(-1)),
+    minorUnits: formatter.resolvedOptions().maximumFractionDigits ?? 2,
+  }
+  currencyFormatCache.set(cacheKey, currencyFormat)
+  return currencyFormat
+}
+
+const percentFormatCache = new Map<string, AffixFormat>()
+
+/**
+ * Reads percent sign placement for a locale from Intl.NumberFormat ("12.5%", "12,5 %", "%12,5")
+ */
+export const getPercentFormat = (locale?: string): AffixFormat => {
+  const resolvedLocale = resolveLocale(locale)
+  const cached = percentFormatCache.get(resolvedLocale)
+  if (cached) return cached
+
+  const formatter = new Intl.NumberFormat(resolvedLocale, { style: 'percent' })
+  const percentFormat: AffixFormat = {
+    ...getAffixesFromParts(formatter.formatToParts(1)),
+    signAfterPrefix: isSignAfterSymbol(formatter.formatToParts(-1)),
+  }
+  percentFormatCache.set(resolvedLocale, percentFormat)
+  return percentFormat
+}
+
+/**
+ * Pads the fraction of formatted numeric text with zeros up to scale digits ("2,5" → "2,50").
+ * Text without any digit (empty or a lone minus sign) is returned unchanged.
+ */
+export const padFractionDigits = (
+  text: string,
+  decimal: string,
+  scale: number,
+): string => {
+  if (scale <= 0 || !/\d/.test(text)) {
+    return text
+  }
+  const decimalIndex = text.indexOf(decimal)
+  if (decimalIndex === -1) {
+    return `${text}${decimal}${'0'.repeat(scale)}`
+  }
+  const fractionLength = text.length - decimalIndex - decimal.length
+  return fractionLength >= scale
+    ? text
+    : `${text}${'0'.repeat(scale - fractionLength)}`
+}
+
+/**
+ * Converts a number to a plain decimal string without exponent notation (1e-7 → "0.0000001")
+ */
+export const toPlainNumberString = (value: number): string => {
+  const valueStr = value.toString()
+  if (!/e/i.test(valueStr)) {
+    return valueStr
+  }
+  return value.toLocaleString('en-US', {
+    useGrouping: false,
+    maximumFractionDigits: 20,
+  })
+}
+
+/**
+ * Converts a number to canonical text for exponent input ("6.022e23", "1e-9")
+ * 'auto' uses an exponent where JavaScript would (|value| >= 1e21 or < 1e-6), 'always' in scientific form
+ */
+export const toExponentString = (
+  value: number,
+  exponentDisplay: NumericExponentDisplay = 'auto',
+): string => {
+  if (exponentDisplay === 'never') {
+    return toPlainNumberString(value)
+  }
+  const valueStr =
+    exponentDisplay === 'always' ? value.toExponential() : value.toString()
+  return valueStr.replace('e+', 'e')
+}
+
+/**
+ * Converts a canonical decimal string to exponent text like toExponentString, keeping every digit
+ * ("602200000000000000000000", 'auto' → "6.022e23"; "1234", 'always' → "1.234e3")
+ */
+export const toExponentDecimalString = (
+  decimal: string,
+  exponentDisplay: NumericExponentDisplay = 'auto',
+): string => {
+  if (exponentDisplay === 'never') {
+    return decimal
+  }
+  const isNegative = decimal.startsWith('-')
+  const [integerPart, fractionPart = ''] = (isNegative ? decimal.slice(1) : decimal).split('.')
+  const digits = `${integerPart}${fractionPart}`
+  const firstNonZero = digits.search(/[1-9]/)
+  if (firstNonZero === -1) {
+    return exponentDisplay === 'always' ? '0e0' : decimal
+  }
+  const exponent = integerPart.length - 1 - firstNonZero
+  if (exponentDisplay === 'auto' && exponent > -7 && exponent < 21) {
+    return decimal
+  }
+  const significant = digits.slice(firstNonZero).replace(/0+$/, '')
+  const mantissa =
+    significant.length > 1 ? `${significant[0]}.${significant.slice(1)}` : significant
+  return `${isNegative ? '-' : ''}${mantissa}e${exponent}`
+}
+
+/**
+ * Furthest exponent typed in string and bigint modes, as far as a double reaches
+ * Keeps "1e999" from expanding to a thousand digits
+ */
+export const MAX_EXACT_EXPONENT = 308
+
+/**
+ * Splits canonical input at the first "e"/"E" into mantissa and exponent
+ * The exponent keeps digits and a leading minus; "+" is implied
+ * Returns exponent undefined when the input has no exponent marker
+ */
+export const splitExponent = (
+  input: string,
+): { mantissa: string; exponent: string | undefined } => {
+  const exponentIndex = input.search(/[eEｅＥ]/)
+  if (exponentIndex === -1) {
+    return { mantissa: input, exponent: undefined }
+  }
+  const exponentText = input.slice(exponentIndex + 1).trim()
+  const sign = exponentText.startsWith('-') ? '-' : ''
+  const digits = exponentText.replace(/\D/g, '').replace(/^0+(?=\d)/, '')
+  return { mantissa: input.slice(0, exponentIndex), exponent: `${sign}${digits}` }
+}
+
+/**
+ * Moves the decimal point of a canonical number string by whole digits, without float arithmetic.
+ * Positive places multiply by powers of ten ("0.123", 2 → "12.3"), negative places divide.
+ */
+export const shiftDecimalPoint = (value: string, places: number): string => {
+  const isNegative = value.startsWith('-')
+  const unsigned = isNegative ? value.slice(1) : value
+  const [integerPart, fractionPart = ''] = unsigned.split('.')
+  let digits = `${integerPart}${fractionPart}`
+  let pointIndex = integerPart.length + places
+
+  if (pointIndex < 0) {
+    digits = `${'0'.repeat(-pointIndex)}${digits}`
+    pointIndex = 0
+  }
+  if (pointIndex > digits.length) {
+    digits = `${digits}${'0'.repeat(pointIndex - digits.length)}`
+  }
+
+  const shiftedInteger = digits.slice(0, pointIndex).replace(/^0+(?=\d)/, '') || '0'
+  const shiftedFraction = digits.slice(pointIndex).replace(/0+$/, '')
+  const result = shiftedFraction
+    ? `${shiftedInteger}.${shiftedFraction}`
+    : shiftedInteger
+  return isNegative && result !== '0' ? `-${result}` : result
+}
+
+/**
+ * Rounds a canonical decimal string to the given number of fraction digits, without float arithmetic
+ * 'halfUp' rounds ties away from zero, 'halfEven' to the even digit, 'ceil'/'floor' toward ±Infinity
+ * The result keeps exactly places fraction digits ("9.999", 2 → "10.00"); shorter fractions are returned unchanged
+ */
+export const roundDecimalString = (
+  value: string,
+  places: number,
+  roundingMode: NumericRoundingMode,
+): string => {
+  const isNegative = value.startsWith('-')
+  const [integerPart, fractionPart = ''] = (
+    isNegative ? value.slice(1) : value
+  ).split('.')
+  if (fractionPart.length <= places) {
+    return value
+  }
+
+  const keptDigits = `${integerPart}${fractionPart.slice(0, places)}`
+  const droppedDigits = fractionPart.slice(places)
+  const hasRemainder = /[1-9]/.test(droppedDigits)
+  const firstDropped = Number(droppedDigits[0])
+  const isTie = firstDropped === 5 && !/[1-9]/.test(droppedDigits.slice(1))
+  const lastKept = Number(keptDigits[keptDigits.length - 1] ?? 0)
+
+  const roundsAway =
+    roundingMode === 'ceil'
+      ? hasRemainder && !isNegative
+      : roundingMode === 'floor'
+        ? hasRemainder && isNegative
+        : roundingMode === 'halfUp'
+          ? firstDropped >= 5
+          : roundingMode === 'halfEven'
+            ? firstDropped > 5 || (firstDropped === 5 && (!isTie || lastKept % 2 === 1))
+            : false
+
+  // Add one unit in the last kept place, carrying into the integer part ("999" → "1000")
+  let digits = keptDigits
+  if (roundsAway) {
+    const carried = digits.split('')
+    let index = carried.length - 1
+    while (index >= 0 && carried[index] === '9') {
+      carried[index] = '0'
+      index--
+    }
+    if (index < 0) {
+      carried.unshift('1')
+    } else {
+      carried[index] = String(Number(carried[index]) + 1)
+    }
+    digits = carried.join('')
+  }
+
+  const integerLength = digits.length - places
+  const roundedInteger = digits.slice(0, integerLength).replace(/^0+(?=\d)/, '') || '0'
+  const rounded =
+    places > 0 ? `${roundedInteger}.${digits.slice(integerLength)}` : roundedInteger
+  return isNegative && /[1-9]/.test(rounded) ? `-${rounded}` : rounded
+}
+
+/**
+ * Converts a number, bigint or canonical string to a plain decimal string without float rounding
+ */
+export const toDecimalString = (value: number | string | bigint): string =>
+  typeof value === 'number' ? toPlainNumberString(value) : value.toString()
+
+/**
+ * Compares two canonical decimal strings by value ("1.50" equals "1.5", "-0" equals "0")
+ * Returns a negative number, zero or a positive number like Array#sort comparators
+ */
+export const compareDecimalStrings = (a: string, b: string): number => {
+  const parse = (value: string) => {
+    const isNegative = value.startsWith('-')
+    const [integerPart = '', fractionPart = ''] = (
+      isNegative ? value.slice(1) : value
+    ).split('.')
+    const integer = integerPart.replace(/^0+/, '')
+    const fraction = fractionPart.replace(/0+$/, '')
+    const sign = integer === '' && fraction === '' ? 0 : isNegative ? -1 : 1
+    return { sign, integer, fraction }
+  }
+  const left = parse(a)
+  const right = parse(b)
+
+  if (left.sign !== right.sign) {
+    return left.sign - right.sign
+  }
+  if (left.sign === 0) {
+    return 0
+  }
+
+  let magnitude = left.integer.length - right.integer.length
+  if (magnitude === 0 && left.integer !== right.integer) {
+    magnitude = left.integer > right.integer ? 1 : -1
+  }
+  if (magnitude === 0) {
+    const fractionLength = Math.max(left.fraction.length, right.fraction.length)
+    const leftFraction = left.fraction.padEnd(fractionLength, '0')
+    const rightFraction = right.fraction.padEnd(fractionLength, '0')
+    if (leftFraction !== rightFraction) {
+      magnitude = leftFraction > rightFraction ? 1 : -1
+    }
+  }
+  return magnitude * left.sign
+}
+
+/**
+ * Adds two canonical decimal strings without float arithmetic ("0.1" + "0.2" → "0.3")
+ */
+export const addDecimalStrings = (a: string, b: string): string => {
+  const fractionLength = Math.max(a.split('.')[1]?.length ?? 0, b.split('.')[1]?.length ?? 0)
+  const toScaledInteger = (value: string) => BigInt(shiftDecimalPoint(value, fractionLength))
+  return shiftDecimalPoint((toScaledInteger(a) + toScaledInteger(b)).toString(), -fractionLength)
+}
+
+/**
+ * Lists every text a suffix can render as, longest first so stripping prefers the most specific form
+ */
+export const getSuffixForms = (suffix?: NumericSuffix): string[] => {
+  if (!suffix) return []
+  const forms = typeof suffix === 'string' ? [suffix] : Object.values(suffix)
+  return forms
+    .filter((form): form is string => Boolean(form))
+    .sort((a, b) => b.length - a.length)
+}
+
+/**
+ * Picks the suffix for a count, using Intl.PluralRules when plural forms are given
+ * ("1 item" / "2 items"). Falls back to the "other" form.
+ */
+export const selectSuffix = (
+  suffix: NumericSuffix | undefined,
+  count: number,
+  locale?: string,
+): string => {
+  if (!suffix) return ''
+  if (typeof suffix === 'string') return suffix
+  const category = Number.isFinite(count)
+    ? new Intl.PluralRules(resolveLocale(locale)).select(count)
+    : 'other'
+  return suffix[category] ?? suffix.other ?? ''
+}
+
+/**
+ * Removes a leading prefix and any trailing suffix form from the input text
+ * A sign written outside them ("-$5", "($5.00)", "(5,00 €)") is kept around the number ("-5", "(5.00)")
+ */
+export const stripAffixes = (
+  input: string,
+  prefix: string | undefined,
+  suffixForms: readonly string[],
+  outerSigns: readonly string[] = [],
+): string => {
+  const sign =
+    outerSigns.find((outerSign) => input.startsWith(outerSign + (prefix ?? ''))) ?? ''
+  const closing = sign === '(' && input.length > 1 && input.endsWith(')') ? ')' : ''
+  let result = input.slice(sign.length, input.length - closing.length)
+  if (prefix && result.startsWith(prefix)) {
+    result = result.slice(prefix.length)
+  }
+  const suffixForm = suffixForms.find((form) => result.endsWith(form))
+  if (suffixForm) {
+    result = result.slice(0, result.length - suffixForm.length)
+  }
+  return sign + result + closing
+}
+
+/**
+ * Parses a value prop (string, number or bigint) to a canonical decimal string, removing localized symbols if present
+ * Strings are read digit by digit, so values beyond Number.MAX_SAFE_INTEGER keep their precision
+ * Returns undefined for empty or invalid values
  */
 export const parseValueProp = (
-  value: string | number | readonly string[] | null | undefined,
-  separator?: string,
-): number => {
+  value: string | number | bigint | readonly string[] | null | undefined,
+  symbols: Partial<NumberSymbols> = DEFAULT_NUMBER_SYMBOLS,
+): string | undefined => {
   if (value === null || value === undefined || value === '') {
-    return NaN
+    return undefined
   }
 
   if (typeof value === 'number') {
-    return value
+    return Number.isFinite(value) ? toPlainNumberString(value) : undefined
+  }
+
+  if (typeof value === 'bigint') {
+    return value.toString()
   }
 
   // Handle array case (shouldn't happen for numeric input, but handle gracefully)
-  if (Array.isArray(value)) {
-    const firstValue = value[0]
-    if (!firstValue) {
-      return NaN
+  const text = Array.isArray(value) ? value[0] : (value as string)
+  if (!text) {
+    return undefined
+  }
+
+  const match = /^(-?)(?=\.?\d)(\d*)\.?(\d*)(?:e(-?\d+))?$/i.exec(
+    delocalizeNumericInput(
+      normalizeDigits(text.trim(), { ...DEFAULT_NUMBER_SYMBOLS, ...symbols }),
+      symbols,
+    ),
+  )
+  if (!match) {
+    return undefined
+  }
+  const [, sign, integerPart, fractionPart, exponent] = match
+  const mantissa = `${sign}${integerPart.replace(/^0+(?=\d)/, '') || '0'}${
+    fractionPart ? `.${fractionPart}` : ''
+  }`
+  return exponent !== undefined
+    ? shiftDecimalPoint(mantissa, Number(exponent))
+    : mantissa
+}
+
+// Marks that only ever group digits in copied amounts (spaces, apostrophes as in 1'234)
+const PASTE_GROUP_MARK_PATTERN = /[\s\u00a0\u202f'’]/g
+
+/**
+ * Reads a formatted amount copied from elsewhere ("$1,234.56", "1.234,56 €", "(1,234)", "1 234,56")
+ * Currency symbols and other text are dropped, and parentheses or a trailing minus make it negative
+ * With two kinds of marks the last one is the decimal; a single mark is the decimal unless it occurs
+ * more than once or is followed by exactly three digits, in which case the locale decides and the
+ * parse is marked ambiguous
+ * Returns undefined when the text has no digits or the marks can't be told apart
+ */
+export const parsePastedNumber = (
+  text: string,
+  symbols: Partial<NumberSymbols> = DEFAULT_NUMBER_SYMBOLS,
+): NumericPasteParse | undefined => {
+  const { decimal, group, minusSign } = { ...DEFAULT_NUMBER_SYMBOLS, ...symbols }
+  let source = normalizeDigits(text.trim(), { decimal, group })
+  if (minusSign !== '-') {
+    source = source.split(minusSign).join('-')
+  }
+
+  const firstDigit = source.search(/\d/)
+  if (firstDigit === -1) {
+    return undefined
+  }
+  const lastDigit = source.length - 1 - [...source].reverse().join('').search(/\d/)
+  const isNegative =
+    /\(.*\d.*\)/.test(source) ||
+    /-\D*$/.test(source.slice(0, firstDigit)) ||
+    /^\s*-/.test(source.slice(lastDigit + 1))
+
+  // A mark right before the first digit is a leading decimal (".5")
+  const markCandidates = new Set(['.', ',', decimal, group].filter(Boolean))
+  const start = firstDigit > 0 && markCandidates.has(source[firstDigit - 1]) ? firstDigit - 1 : firstDigit
+  const body = Array.from(
+    source.slice(start, lastDigit + 1).replace(PASTE_GROUP_MARK_PATTERN, ''),
+  )
+    .filter((char) => /\d/.test(char) || markCandidates.has(char))
+    .join('')
+
+  const marks = body.replace(/\d/g, '')
+  const distinctMarks = [...new Set(marks)]
+  let decimalMark: string | undefined
+  let isAmbiguous = false
+
+  if (distinctMarks.length > 1) {
+    // "1.234,56" / "1,234.56": the last mark is the decimal and may appear only once
+    decimalMark = marks[marks.length - 1]
+    if (marks.indexOf(decimalMark) !== marks.length - 1) {
+      return undefined
+    }
+  } else if (distinctMarks.length === 1 && marks.length === 1) {
+    const [mark] = distinctMarks
+    const [integerDigits, fractionDigits] = body.split(mark)
+    if (fractionDigits.length !== 3 || /^0*$/.test(integerDigits)) {
+      decimalMark = mark
+    } else {
+      isAmbiguous = true
+      decimalMark = mark === decimal ? mark : undefined
     }
-    const cleanedValue = separator
-      ? firstValue.replace(new RegExp(`[${escapeRegex(separator)}]`, 'g'), '')
-      : firstValue
-    return Number(cleanedValue)
   }
 
-  // At this point, value must be a string
-  const cleanedValue = separator
-    ? (value as string).replace(new RegExp(`[${escapeRegex(separator)}]`, 'g'), '')
-    : (value as string)
+  const [integerDigits, fractionDigits = ''] =
+    decimalMark === undefined
+      ? [body.replace(/\D/g, '')]
+      : body.split(decimalMark).map((part) => part.replace(/\D/g, ''))
+  const value = parseValueProp(
+    `${isNegative ? '-' : ''}${integerDigits}${fractionDigits ? `.${fractionDigits}` : ''}`,
+  )
+  if (value === undefined) {
+    return undefined
+  }
 
-  return Number(cleanedValue)
+  return {
+    text,
+    value: compareDecimalStrings(value, '0') === 0 ? value.replace(/^-/, '') : value,
+    isAmbiguous,
+  }
+}
+
+/**
+ * Digit limits enforced by normalizeNumericInput, beside maxLength
+ * Leading zeros don't count; significant digits start at the first non-zero digit
+ */
+export type DigitLimits = {
+  maxIntegerDigits?: number
+  maxSignificantDigits?: number
+}
+
+/**
+ * Drops the integer and significant digits past the limits, keeping the earlier digits in place
+ */
+const applyDigitLimits = (
+  normalized: string,
+  { maxIntegerDigits, maxSignificantDigits }: DigitLimits,
+): string => {
+  let result = ''
+  let isFraction = false
+  let hasSignificantDigit = false
+  let integerDigits = 0
+  let significantDigits = 0
+
+  for (const char of normalized) {
+    if (char === '.') {
+      isFraction = true
+      result += char
+      continue
+    }
+    if (!/\d/.test(char)) {
+      result += char
+      continue
+    }
+
+    const isLeadingZero = char === '0' && !hasSignificantDigit
+    if (
+      !isFraction &&
+      !isLeadingZero &&
+      maxIntegerDigits !== undefined &&
+      integerDigits >= maxIntegerDigits
+    ) {
+      continue
+    }
+    if (
+      !isLeadingZero &&
+      maxSignificantDigits !== undefined &&
+      significantDigits >= maxSignificantDigits
+    ) {
+      continue
+    }
+
+    result += char
+    if (!isLeadingZero) {
+      hasSignificantDigit = true
+      significantDigits++
+      if (!isFraction) {
+        integerDigits++
+      }
+    }
+  }
+
+  return result
 }
 
 /**
@@ -80,6 +1062,7 @@ export const normalizeNumericInput = (
   allowDecimal: boolean,
   allowNegative: boolean,
   maxLength?: number,
+  digitLimits: DigitLimits = {},
 ): string => {
   let normalized = input
 
@@ -160,20 +1143,72 @@ export const normalizeNumericInput = (
     }
   }
 
+  // Apply integer and significant digit limits (e.g. DECIMAL(13,4) allows 9 integer digits)
+  if (
+    digitLimits.maxIntegerDigits !== undefined ||
+    digitLimits.maxSignificantDigits !== undefined
+  ) {
+    normalized = applyDigitLimits(normalized, digitLimits)
+  }
+
   return normalized
 }
 
+const isCaretAnchor = (char: string, anchorChars: readonly string[]): boolean =>
+  DECIMAL_DIGIT_PATTERN.test(char) || anchorChars.includes(char)
+
+/**
+ * Marks which characters of str count as caret anchors
+ * With skipLeadingZeros, zeros before the first significant digit that are followed by another
+ * digit ("00042", zero padding) don't count, so adding or dropping them doesn't move the caret
+ */
+const getCaretAnchors = (
+  str: string,
+  anchorChars: readonly string[],
+  skipLeadingZeros: boolean,
+): boolean[] => {
+  const anchors: boolean[] = []
+  let isLeading = skipLeadingZeros
+  for (let i = 0; i < str.length; i++) {
+    const char = str[i] ?? ''
+    const isDigit = DECIMAL_DIGIT_PATTERN.test(char)
+    if (!isDigit && !anchorChars.includes(char)) {
+      anchors.push(false)
+      continue
+    }
+    if (
+      isLeading &&
+      isDigit &&
+      normalizeDigits(char) === '0' &&
+      DECIMAL_DIGIT_PATTERN.test(str[i + 1] ?? '')
+    ) {
+      anchors.push(false)
+      continue
+    }
+    // A significant digit or the decimal point ends the leading zeros; a minus sign doesn't
+    if (isDigit || !/[-\u2212]/.test(char)) {
+      isLeading = false
+    }
+    anchors.push(true)
+  }
+  return anchors
+}
+
 /**
- * Count digit characters (0-9) from the start of string up to (but not including) position.
+ * Count digit characters (any script) from the start of string up to (but not including) position.
  * Used to preserve cursor position when reformatting (e.g. adding/removing thousand separators).
+ * anchorChars are counted like digits (e.g. the decimal point, so the caret stays after it).
  */
-export const countDigitsBefore = (str: string, position: number): number => {
+export const countDigitsBefore = (
+  str: string,
+  position: number,
+  anchorChars: readonly string[] = [],
+  skipLeadingZeros = false,
+): number => {
   const end = Math.min(position, str.length)
-  let count = 0
-  for (let i = 0; i < end; i++) {
-    if (/\d/.test(str[i] ?? '')) count++
-  }
-  return count
+  return getCaretAnchors(str, anchorChars, skipLeadingZeros)
+    .slice(0, end)
+    .filter(Boolean).length
 }
 
 /**
@@ -184,11 +1219,14 @@ export const countDigitsBefore = (str: string, position: number): number => {
 export const positionAfterDigitCount = (
   str: string,
   digitCount: number,
+  anchorChars: readonly string[] = [],
+  skipLeadingZeros = false,
 ): number => {
   if (digitCount <= 0) return 0
+  const anchors = getCaretAnchors(str, anchorChars, skipLeadingZeros)
   let count = 0
-  for (let i = 0; i < str.length; i++) {
-    if (/\d/.test(str[i] ?? '')) {
+  for (let i = 0; i < anchors.length; i++) {
+    if (anchors[i]) {
       count++
       if (count === digitCount) return i + 1
     }
@@ -196,3 +1234,142 @@ export const positionAfterDigitCount = (
   return str.length
 }
 
+/**
+ * Literal text of a digit pattern before its first slot ("+1 (" in "+1 (###) ###-####")
+ * The caret is kept after it, like a prefix
+ */
+export const getPatternPrefix = (pattern: string, patternChar = '#'): string => {
+  const firstSlot = pattern.indexOf(patternChar)
+  return firstSlot === -1 ? pattern : pattern.slice(0, firstSlot)
+}
+
+export const getPatternSlotCount = (pattern: string, patternChar = '#'): number =>
+  pattern.split(patternChar).length - 1
+
+/**
+ * Reads the digits typed into a digit pattern ("123-4567890" → "1234567890")
+ * Full-width and native digits become 0-9; literals, placeholders and other characters are dropped
+ * Digits past the last slot are cut off
+ */
+export const unmaskDigitPattern = (
+  text: string,
+  pattern: string,
+  patternChar = '#',
+  mappings?: Record<string, string>,
+): string => {
+  // Digits in the leading literal ("+1 (") aren't typed digits
+  const prefix = getPatternPrefix(pattern, patternChar)
+  const body = prefix && text.startsWith(prefix) ? text.slice(prefix.length) : text
+  return normalizeDigits(convertFullWidthToHalfWidth(body, DEFAULT_NUMBER_SYMBOLS, mappings))
+    .replace(/[^0-9]/g, '')
+    .slice(0, getPatternSlotCount(pattern, patternChar))
+}
+
+/**
+ * Fills the slots of a digit pattern ("###-#######") with digits
+ * Without placeholderChar the text ends after the last digit ("123" → "123");
+ * with it every slot is shown ("123" → "123-_______")
+ */
+export const formatDigitPattern = (
+  digits: string,
+  pattern: string,
+  patternChar = '#',
+  placeholderChar?: string,
+): string => {
+  let result = ''
+  let digitIndex = 0
+  for (const char of pattern) {
+    const isExhausted = digitIndex >= digits.length
+    if (isExhausted && placeholderChar === undefined) break
+    if (char !== patternChar) {
+      result += char
+    } else {
+      result += isExhausted ? placeholderChar : digits[digitIndex]
+      digitIndex++
+    }
+  }
+  return result
+}
+
+const LATIN_MAGNITUDE_SUFFIXES: NumericMagnitudeSuffixes = {
+  k: 1e3,
+  m: 1e6,
+  b: 1e9,
+  t: 1e12,
+}
+
+const LOCALE_MAGNITUDE_SUFFIXES: Record<string, NumericMagnitudeSuffixes> = {
+  ja: { 万: 1e4, 億: 1e8, 兆: 1e12 },
+  zh: { 万: 1e4, 萬: 1e4, 亿: 1e8, 億: 1e8 },
+  ko: { 만: 1e4, 억: 1e8, 조: 1e12 },
+}
+
+/**
+ * Default magnitude suffixes: k/m/b/t plus the suffixes of the locale's language (万, 億 for Japanese)
+ */
+export const getDefaultMagnitudeSuffixes = (
+  locale?: string,
+): NumericMagnitudeSuffixes => {
+  const language = resolveLocale(locale).split('-')[0].toLowerCase()
+  return {
+    ...LATIN_MAGNITUDE_SUFFIXES,
+    ...LOCALE_MAGNITUDE_SUFFIXES[language],
+  }
+}
+
+/**
+ * Multiplies a canonical number string by a magnitude.
+ * Powers of ten shift digits so no float noise is introduced ("1.5", 1000 → "1500").
+ */
+export const multiplyByMagnitude = (value: string, multiplier: number): string => {
+  const exponent = Math.log10(multiplier)
+  if (Number.isInteger(exponent)) {
+    return shiftDecimalPoint(value, exponent)
+  }
+  return toPlainNumberString(Number(value) * multiplier)
+}
+
+export type MagnitudeMatch =
+  | { status: 'none' }
+  | { status: 'pending'; numberPart: string }
+  | { status: 'expanded'; numberPart: string; value: string }
+
+/**
+ * Looks for a magnitude suffix after the number ("250k", "1.5 m", "10万").
+ * A suffix is expanded as soon as no longer suffix starts with it; otherwise the match stays
+ * pending until commit, when the exact suffix (if any) wins.
+ */
+export const matchMagnitudeSuffix = (
+  input: string,
+  suffixes: NumericMagnitudeSuffixes,
+  commit: boolean,
+): MagnitudeMatch => {
+  const match = /^(-?\d*\.?\d*)\s*([^\d\s.\-]+)$/u.exec(input)
+  if (!match || !/\d/.test(match[1])) {
+    return { status: 'none' }
+  }
+
+  const [, numberPart, typedSuffix] = match
+  const normalizedSuffix = typedSuffix.toLowerCase()
+  const entries = Object.entries(suffixes).map(
+    ([suffix, multiplier]) => [suffix.toLowerCase(), multiplier] as const,
+  )
+  const exact = entries.find(([suffix]) => suffix === normalizedSuffix)
+  const hasLonger = entries.some(
+    ([suffix]) =>
+      suffix.length > normalizedSuffix.length &&
+      suffix.startsWith(normalizedSuffix),
+  )
+
+  if (hasLonger && !commit) {
+    return { status: 'pending', numberPart }
+  }
+  if (exact) {
+    return {
+      status: 'expanded',
+      numberPart,
+      value: multiplyByMagnitude(numberPart, exact[1]),
+    }
+  }
+  return { status: 'none' }
+}
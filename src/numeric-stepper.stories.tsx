@@ -0,0 +1,116 @@
+import type { Meta, StoryObj } from '@storybook/react-vite'
+import { useState, useCallback } from 'react'
+import { NumericStepper } from './numeric-stepper'
+import type {
+  NumericInputValue,
+  NumericStepperProps,
+  NumericValueType,
+} from './numeric-input.types'
+
+// Wrapper component that maintains its own state
+const NumericStepperWithState = (
+  props: Omit<NumericStepperProps<NumericValueType>, 'onValueChange'>,
+) => {
+  const [value, setValue] = useState<NumericInputValue<NumericValueType>>({
+    value: undefined,
+    formattedValue: '',
+  })
+
+  const handleValueChange = useCallback((val: NumericInputValue<NumericValueType>) => {
+    setValue(val)
+  }, [])
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px', minWidth: '300px' }}>
+      <NumericStepper
+        {...props}
+        value={value.formattedValue}
+        onValueChange={handleValueChange}
+      />
+      <div style={{ fontSize: '12px', color: '#666', marginTop: '8px' }}>
+        <div>Value: {value.value}</div>
+        <div>Formatted: {value.formattedValue || '(empty)'}</div>
+      </div>
+    </div>
+  )
+}
+
+const meta = {
+  title: 'Components/NumericStepper',
+  component: NumericStepperWithState,
+  parameters: {
+    layout: 'centered',
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    step: {
+      control: 'number',
+      description: 'Amount added or subtracted per press (default: 1)',
+    },
+    minValue: {
+      control: 'number',
+      description: 'Minimum value; the decrement button disables there',
+    },
+    maxValue: {
+      control: 'number',
+      description: 'Maximum value; the increment button disables there',
+    },
+    allowDecimal: {
+      control: 'boolean',
+      description: 'Allow decimal numbers',
+    },
+    allowNegative: {
+      control: 'boolean',
+      description: 'Allow negative numbers',
+    },
+    incrementLabel: {
+      control: 'text',
+      description: 'Accessible label of the increment button',
+    },
+    decrementLabel: {
+      control: 'text',
+      description: 'Accessible label of the decrement button',
+    },
+    disabled: {
+      control: 'boolean',
+      description: 'Disable the input and both buttons',
+    },
+  },
+} satisfies Meta<typeof NumericStepperWithState>
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  args: {
+    placeholder: '0',
+  },
+}
+
+export const Quantity: Story = {
+  args: {
+    placeholder: 'Quantity',
+    minValue: 1,
+    maxValue: 99,
+  },
+}
+
+export const DecimalSteps: Story = {
+  args: {
+    placeholder: '0.00',
+    allowDecimal: true,
+    maxDecimalPlaces: 2,
+    step: 0.25,
+    separator: ',',
+  },
+}
+
+export const WithNegativeValues: Story = {
+  args: {
+    placeholder: '0',
+    allowNegative: true,
+    step: 5,
+    minValue: -50,
+    maxValue: 50,
+  },
+}
@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type MockedFunction } from 'vitest'
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { NumericStepper } from './numeric-stepper'
+import type { NumericInputValue, NumericValueType } from './numeric-input.types'
+
+describe('NumericStepper', () => {
+  let onValueChange: MockedFunction<
+    (valueObject: NumericInputValue<NumericValueType>) => void
+  >
+
+  beforeEach(() => {
+    onValueChange = vi.fn()
+  })
+
+  describe('Buttons', () => {
+    it('should render the input between decrement and increment buttons', () => {
+      render(<NumericStepper onValueChange={onValueChange} />)
+
+      const buttons = screen.getAllByRole('button')
+      expect(buttons.map((button) => button.getAttribute('aria-label'))).toEqual([
+        'Decrease',
+        'Increase',
+      ])
+      expect(screen.getByRole('spinbutton')).toBeInTheDocument()
+    })
+
+    it('should step by 1 by default', async () => {
+      const user = userEvent.setup()
+      render(<NumericStepper onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('spinbutton')
+      await user.click(screen.getByRole('button', { name: 'Increase' }))
+      await user.click(screen.getByRole('button', { name: 'Increase' }))
+      expect(input).toHaveValue('2')
+      await user.click(screen.getByRole('button', { name: 'Decrease' }))
+      expect(input).toHaveValue('1')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1,
+        formattedValue: '1',
+      })
+    })
+
+    it('should share the input formatting and step', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericStepper
+          onValueChange={onValueChange}
+          separator=","
+          step={250}
+          value={1000}
+        />,
+      )
+
+      const input = screen.getByRole('spinbutton')
+      expect(input).toHaveValue('1,000')
+      await user.click(screen.getByRole('button', { name: 'Increase' }))
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: 1250,
+        formattedValue: '1,250',
+      })
+    })
+
+    it('should disable the buttons at minValue and maxValue', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericStepper onValueChange={onValueChange} minValue={1} maxValue={3} />,
+      )
+
+      const increase = screen.getByRole('button', { name: 'Increase' })
+      const decrease = screen.getByRole('button', { name: 'Decrease' })
+      expect(decrease).toBeDisabled()
+
+      await user.click(increase)
+      expect(screen.getByRole('spinbutton')).toHaveValue('1')
+      expect(decrease).toBeDisabled()
+
+      await user.click(increase)
+      await user.click(increase)
+      expect(screen.getByRole('spinbutton')).toHaveValue('3')
+      expect(increase).toBeDisabled()
+      expect(decrease).toBeEnabled()
+    })
+
+    it('should not step below zero without allowNegative', () => {
+      render(<NumericStepper onValueChange={onValueChange} value={0} />)
+
+      expect(screen.getByRole('button', { name: 'Decrease' })).toBeDisabled()
+    })
+
+    it('should disable the buttons when the input is disabled or readOnly', () => {
+      const { rerender } = render(<NumericStepper disabled />)
+      for (const button of screen.getAllByRole('button')) {
+        expect(button).toBeDisabled()
+      }
+
+      rerender(<NumericStepper readOnly />)
+      for (const button of screen.getAllByRole('button')) {
+        expect(button).toBeDisabled()
+      }
+    })
+
+    it('should keep focus on the input', async () => {
+      const user = userEvent.setup()
+      render(<NumericStepper onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('spinbutton')
+      await user.click(input)
+      await user.click(screen.getByRole('button', { name: 'Increase' }))
+      expect(input).toHaveFocus()
+      expect(input).toHaveValue('1')
+    })
+
+    it('should step once for clicks without a pointer press', () => {
+      render(<NumericStepper onValueChange={onValueChange} />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Increase' }), { detail: 0 })
+      expect(screen.getByRole('spinbutton')).toHaveValue('1')
+    })
+
+    it('should use custom labels and content', () => {
+      render(
+        <NumericStepper
+          incrementLabel="Add one"
+          decrementLabel="Remove one"
+          incrementContent="▲"
+          decrementContent="▼"
+          buttonClassName="stepper-button"
+          containerClassName="stepper"
+        />,
+      )
+
+      const increase = screen.getByRole('button', { name: 'Add one' })
+      expect(increase).toHaveTextContent('▲')
+      expect(increase).toHaveClass('stepper-button')
+      expect(screen.getByRole('button', { name: 'Remove one' })).toHaveTextContent('▼')
+      expect(screen.getByRole('group')).toHaveClass('stepper')
+    })
+  })
+
+  describe('Press and hold', () => {
+    // Advance in small steps so React renders between repeats, as it does between timer tasks
+    const holdFor = (ms: number) => {
+      for (let elapsed = 0; elapsed < ms; elapsed += 10) {
+        act(() => {
+          vi.advanceTimersByTime(Math.min(10, ms - elapsed))
+        })
+      }
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should repeat with acceleration while held', () => {
+      render(<NumericStepper onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('spinbutton')
+      const increase = screen.getByRole('button', { name: 'Increase' })
+      fireEvent.pointerDown(increase, { button: 0 })
+      expect(input).toHaveValue('1')
+
+      // Nothing repeats before the hold delay
+      holdFor(399)
+      expect(input).toHaveValue('1')
+
+      holdFor(1)
+      expect(input).toHaveValue('2')
+
+      // Later repeats come faster than the first interval
+      holdFor(1000)
+      const repeats = Number((input as HTMLInputElement).value)
+      expect(repeats).toBeGreaterThan(2 + 1000 / 150)
+
+      fireEvent.pointerUp(increase)
+      holdFor(1000)
+      expect(input).toHaveValue(String(repeats))
+    })
+
+    it('should stop repeating when the pointer leaves or is cancelled', () => {
+      render(<NumericStepper onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('spinbutton')
+      const increase = screen.getByRole('button', { name: 'Increase' })
+      fireEvent.pointerDown(increase, { button: 0 })
+      fireEvent.pointerLeave(increase)
+      holdFor(1000)
+      expect(input).toHaveValue('1')
+
+      fireEvent.pointerDown(increase, { button: 0 })
+      fireEvent.pointerCancel(increase)
+      holdFor(1000)
+      expect(input).toHaveValue('2')
+    })
+
+    it('should stop at the bound while held', () => {
+      render(<NumericStepper onValueChange={onValueChange} maxValue={5} />)
+
+      const input = screen.getByRole('spinbutton')
+      const increase = screen.getByRole('button', { name: 'Increase' })
+      fireEvent.pointerDown(increase, { button: 0 })
+      holdFor(5000)
+      expect(input).toHaveValue('5')
+      expect(increase).toBeDisabled()
+      expect(onValueChange).toHaveBeenCalledTimes(5)
+    })
+
+    it('should ignore secondary mouse buttons', () => {
+      render(<NumericStepper onValueChange={onValueChange} />)
+
+      fireEvent.pointerDown(screen.getByRole('button', { name: 'Increase' }), { button: 2 })
+      expect(screen.getByRole('spinbutton')).toHaveValue('')
+    })
+  })
+
+  describe('Spin button', () => {
+    it('should expose the value and bounds to assistive technology', async () => {
+      const user = userEvent.setup()
+      render(
+        <NumericStepper
+          onValueChange={onValueChange}
+          separator=","
+          minValue={0}
+          maxValue={5000}
+        />,
+      )
+
+      const input = screen.getByRole('spinbutton')
+      expect(input).toHaveAttribute('aria-valuemin', '0')
+      expect(input).toHaveAttribute('aria-valuemax', '5000')
+      expect(input).not.toHaveAttribute('aria-valuenow')
+
+      await user.type(input, '1234')
+      expect(input).toHaveAttribute('aria-valuenow', '1234')
+      expect(input).toHaveAttribute('aria-valuetext', '1,234')
+    })
+
+    it('should step with the arrow keys', async () => {
+      const user = userEvent.setup()
+      render(<NumericStepper onValueChange={onValueChange} step={2} />)
+
+      const input = screen.getByRole('spinbutton')
+      await user.click(input)
+      await user.keyboard('{ArrowUp}{ArrowUp}{ArrowDown}')
+      expect(input).toHaveValue('2')
+    })
+  })
+})
@@ -0,0 +1,51 @@
+'use client'
+
+import { NumericInputElement, splitNumericInputProps } from './numeric-input'
+import { useNumericInput } from './use-numeric-input'
+import { useNumericStepper } from './use-numeric-stepper'
+import type { NumericStepperProps, NumericValueType } from './numeric-input.types'
+
+const NumericStepper = <T extends NumericValueType = 'number'>({
+  incrementLabel = 'Increase',
+  decrementLabel = 'Decrease',
+  incrementContent = '+',
+  decrementContent = '−',
+  containerClassName,
+  buttonClassName,
+  ...props
+}: NumericStepperProps<T>) => {
+  const [options, inputProps] = splitNumericInputProps(props)
+  const numericInput = useNumericInput({ ...options, step: options.step ?? 1 })
+  const { getButtonProps } = useNumericStepper({
+    stepValue: numericInput.stepValue,
+    canIncrement: numericInput.canIncrement,
+    canDecrement: numericInput.canDecrement,
+    disabled: inputProps.disabled || inputProps.readOnly,
+  })
+
+  return (
+    <div role="group" className={containerClassName}>
+      <button
+        {...getButtonProps(-1)}
+        aria-label={decrementLabel}
+        className={buttonClassName}
+      >
+        {decrementContent}
+      </button>
+      <NumericInputElement
+        numericInput={numericInput}
+        {...numericInput.spinbuttonProps}
+        {...inputProps}
+      />
+      <button
+        {...getButtonProps(1)}
+        aria-label={incrementLabel}
+        className={buttonClassName}
+      >
+        {incrementContent}
+      </button>
+    </div>
+  )
+}
+
+export { NumericStepper }
@@ -0,0 +1,100 @@
+import type { Meta, StoryObj } from '@storybook/react-vite'
+import { useState, useCallback } from 'react'
+import { PatternNumericInput } from './pattern-numeric-input'
+import type {
+  PatternNumericInputProps,
+  PatternNumericInputValue,
+} from './numeric-input.types'
+
+// Wrapper component that maintains its own state
+const PatternNumericInputWithState = (
+  props: Omit<PatternNumericInputProps, 'onValueChange'>,
+) => {
+  const [value, setValue] = useState<PatternNumericInputValue>({
+    value: '',
+    formattedValue: '',
+    isComplete: false,
+  })
+
+  const handleValueChange = useCallback((val: PatternNumericInputValue) => {
+    setValue(val)
+  }, [])
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px', minWidth: '300px' }}>
+      <PatternNumericInput
+        {...props}
+        value={value.value}
+        onValueChange={handleValueChange}
+      />
+      <div style={{ fontSize: '12px', color: '#666', marginTop: '8px' }}>
+        <div>Value: {value.value || '(empty)'}</div>
+        <div>Formatted: {value.formattedValue || '(empty)'}</div>
+        <div>Complete: {String(value.isComplete)}</div>
+      </div>
+    </div>
+  )
+}
+
+const meta = {
+  title: 'Components/PatternNumericInput',
+  component: PatternNumericInputWithState,
+  parameters: {
+    layout: 'centered',
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    pattern: {
+      control: 'text',
+      description: 'Digit slots (#) and literal characters, e.g. "###-#######"',
+    },
+    patternChar: {
+      control: 'text',
+      description: 'Character that marks a digit slot (default: #)',
+    },
+    placeholderChar: {
+      control: 'text',
+      description: 'Shown in empty slots while focused (e.g. _)',
+    },
+    placeholder: {
+      control: 'text',
+      description: 'Placeholder text',
+    },
+    disabled: {
+      control: 'boolean',
+      description: 'Disable the input',
+    },
+  },
+} satisfies Meta<typeof PatternNumericInputWithState>
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const BankAccount: Story = {
+  args: {
+    pattern: '###-#######',
+    placeholder: '123-4567890',
+  },
+}
+
+export const CardNumber: Story = {
+  args: {
+    pattern: '#### #### #### ####',
+    placeholder: 'Card number',
+  },
+}
+
+export const WithPlaceholderSlots: Story = {
+  args: {
+    pattern: '####-####',
+    placeholderChar: '_',
+    placeholder: 'Account code',
+  },
+}
+
+export const PhoneNumber: Story = {
+  args: {
+    pattern: '+1 (###) ###-####',
+    placeholder: '+1 (555) 123-4567',
+  },
+}
@@ -0,0 +1,287 @@
+import { describe, it, expect, vi, beforeEach, type MockedFunction } from 'vitest'
+import { useState } from 'react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { PatternNumericInput } from './pattern-numeric-input'
+import type { PatternNumericInputValue } from './numeric-input.types'
+import { formatDigitPattern, unmaskDigitPattern } from './numeric-input.utils'
+
+describe('PatternNumericInput', () => {
+  let onValueChange: MockedFunction<(valueObject: PatternNumericInputValue) => void>
+
+  beforeEach(() => {
+    onValueChange = vi.fn()
+  })
+
+  describe('Masking', () => {
+    it('should insert literals as digits are typed', async () => {
+      const user = userEvent.setup()
+      render(<PatternNumericInput pattern="###-#######" onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1234567890')
+      expect(input).toHaveValue('123-4567890')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '1234567890',
+        formattedValue: '123-4567890',
+        isComplete: true,
+      })
+    })
+
+    it('should stop at the last typed digit', async () => {
+      const user = userEvent.setup()
+      render(<PatternNumericInput pattern="#### #### #### ####" onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '42424')
+      expect(input).toHaveValue('4242 4')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '42424',
+        formattedValue: '4242 4',
+        isComplete: false,
+      })
+    })
+
+    it('should drop letters and digits past the last slot', async () => {
+      const user = userEvent.setup()
+      render(<PatternNumericInput pattern="##-##" onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1a2b345')
+      expect(input).toHaveValue('12-34')
+    })
+
+    it('should convert full-width and native digits', () => {
+      render(<PatternNumericInput pattern="###-####" onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '１２３٤٥' } })
+      expect(input).toHaveValue('123-45')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '12345',
+        formattedValue: '123-45',
+        isComplete: false,
+      })
+    })
+
+    it('should apply characterMappings', () => {
+      render(
+        <PatternNumericInput
+          pattern="###"
+          characterMappings={{ 〇: '0' }}
+          onValueChange={onValueChange}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      fireEvent.change(input, { target: { value: '1〇2' } })
+      expect(input).toHaveValue('102')
+    })
+
+    it('should support a custom slot character', async () => {
+      const user = userEvent.setup()
+      render(<PatternNumericInput pattern="ID-9999" patternChar="9" />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '42')
+      expect(input).toHaveValue('ID-42')
+    })
+  })
+
+  describe('Leading literal', () => {
+    it('should not read digits of the leading literal as typed digits', async () => {
+      const user = userEvent.setup()
+      render(
+        <PatternNumericInput pattern="+1 (###) ###-####" onValueChange={onValueChange} />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '5551234567')
+      expect(input).toHaveValue('+1 (555) 123-4567')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '5551234567',
+        formattedValue: '+1 (555) 123-4567',
+        isComplete: true,
+      })
+    })
+
+    it('should not delete the leading literal with Backspace', async () => {
+      const user = userEvent.setup()
+      render(<PatternNumericInput pattern="+1 (###)" onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '5')
+      expect(input).toHaveValue('+1 (5')
+
+      input.setSelectionRange(4, 4)
+      fireEvent.keyDown(input, { key: 'Backspace' })
+      expect(input).toHaveValue('+1 (5')
+    })
+  })
+
+  describe('Placeholder slots', () => {
+    it('should show empty slots while focused', async () => {
+      const user = userEvent.setup()
+      render(<PatternNumericInput pattern="###-####" placeholderChar="_" />)
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      expect(input).toHaveValue('')
+
+      await user.click(input)
+      expect(input).toHaveValue('___-____')
+      expect(input.selectionStart).toBe(0)
+
+      await user.type(input, '12')
+      expect(input).toHaveValue('12_-____')
+      expect(input.selectionStart).toBe(2)
+    })
+
+    it('should hide empty slots on blur when there are no digits', async () => {
+      const user = userEvent.setup()
+      render(<PatternNumericInput pattern="###-####" placeholderChar="_" />)
+
+      const input = screen.getByRole('textbox')
+      await user.click(input)
+      await user.tab()
+      expect(input).toHaveValue('')
+    })
+
+    it('should report formattedValue without placeholders', async () => {
+      const user = userEvent.setup()
+      render(
+        <PatternNumericInput
+          pattern="###-####"
+          placeholderChar="_"
+          onValueChange={onValueChange}
+        />,
+      )
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '1234')
+      expect(input).toHaveValue('123-4___')
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '1234',
+        formattedValue: '123-4',
+        isComplete: false,
+      })
+    })
+  })
+
+  describe('Caret', () => {
+    it('should keep the caret after the typed digit when literals shift', async () => {
+      const user = userEvent.setup()
+      render(<PatternNumericInput pattern="###-####" onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      await user.type(input, '1245')
+      expect(input).toHaveValue('124-5')
+
+      await user.type(input, '3', { initialSelectionStart: 2, initialSelectionEnd: 2 })
+      expect(input).toHaveValue('123-45')
+      expect(input.selectionStart).toBe(3)
+    })
+
+    it('should delete the digit before a literal with Backspace', async () => {
+      render(<PatternNumericInput pattern="###-####" onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      fireEvent.change(input, { target: { value: '12345' } })
+      expect(input).toHaveValue('123-45')
+
+      input.setSelectionRange(4, 4)
+      fireEvent.keyDown(input, { key: 'Backspace' })
+
+      await waitFor(() => {
+        expect(input).toHaveValue('124-5')
+      })
+      expect(input.selectionStart).toBe(2)
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '1245',
+        formattedValue: '124-5',
+        isComplete: false,
+      })
+    })
+
+    it('should delete the digit after a literal with Delete', async () => {
+      render(<PatternNumericInput pattern="###-####" onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('textbox') as HTMLInputElement
+      fireEvent.change(input, { target: { value: '12345' } })
+
+      input.setSelectionRange(3, 3)
+      fireEvent.keyDown(input, { key: 'Delete' })
+
+      await waitFor(() => {
+        expect(input).toHaveValue('123-5')
+      })
+      expect(input.selectionStart).toBe(3)
+    })
+  })
+
+  describe('IME composition', () => {
+    it('should mask the text once composition ends', async () => {
+      render(<PatternNumericInput pattern="###-####" onValueChange={onValueChange} />)
+
+      const input = screen.getByRole('textbox')
+      fireEvent.compositionStart(input)
+      fireEvent.change(input, { target: { value: '１２３４' } })
+      expect(input).toHaveValue('１２３４')
+      expect(onValueChange).not.toHaveBeenCalled()
+
+      fireEvent.compositionEnd(input, { data: '１２３４' } as CompositionEvent)
+
+      await waitFor(() => {
+        expect(input).toHaveValue('123-4')
+      })
+      expect(onValueChange).toHaveBeenLastCalledWith({
+        value: '1234',
+        formattedValue: '123-4',
+        isComplete: false,
+      })
+    })
+  })
+
+  describe('Controlled value', () => {
+    it('should accept masked and unmasked values', () => {
+      const { rerender } = render(<PatternNumericInput pattern="###-####" value="1234567" />)
+
+      const input = screen.getByRole('textbox')
+      expect(input).toHaveValue('123-4567')
+
+      rerender(<PatternNumericInput pattern="###-####" value="765-4321" />)
+      expect(input).toHaveValue('765-4321')
+    })
+
+    it('should round-trip the unmasked digits through state', async () => {
+      const user = userEvent.setup()
+      const ControlledInput = () => {
+        const [digits, setDigits] = useState('')
+        return (
+          <PatternNumericInput
+            pattern="####-####"
+            value={digits}
+            onValueChange={(valueObject) => setDigits(valueObject.value)}
+          />
+        )
+      }
+      render(<ControlledInput />)
+
+      const input = screen.getByRole('textbox')
+      await user.type(input, '12345')
+      expect(input).toHaveValue('1234-5')
+      await user.clear(input)
+      expect(input).toHaveValue('')
+    })
+  })
+
+  describe('Pattern utils', () => {
+    it('should format and unmask digits', () => {
+      expect(formatDigitPattern('1234', '###-####')).toBe('123-4')
+      expect(formatDigitPattern('1234', '###-####', '#', '_')).toBe('123-4___')
+      expect(formatDigitPattern('', '(###)')).toBe('')
+      expect(unmaskDigitPattern('123-4567', '###-####')).toBe('1234567')
+      expect(unmaskDigitPattern('+1 (555) 123', '+1 (###) ###')).toBe('555123')
+      expect(unmaskDigitPattern('１２３４５', '###')).toBe('123')
+    })
+  })
+})
@@ -0,0 +1,145 @@
+'use client'
+
+import { usePatternNumericInput } from './use-pattern-numeric-input'
+import type { PatternNumericInputProps } from './numeric-input.types'
+
+const DIGIT_PATTERN = /\p{Nd}/u
+
+const PatternNumericInput = ({
+  pattern,
+  value,
+  patternChar,
+  placeholderChar,
+  characterMappings,
+  className,
+  onBlur,
+  onFocus,
+  onValueChange,
+  onCompositionEnd,
+  onCompositionStart,
+  onKeyDown,
+  onSelect,
+  ...props
+}: PatternNumericInputProps) => {
+  const {
+    inputRef,
+    displayValue,
+    getEditableRange,
+    hasProcessedComposition,
+    handleFocus,
+    handleBlur,
+    handleValueChange,
+    handleCompositionEnd,
+    handleCompositionStart,
+  } = usePatternNumericInput({
+    pattern,
+    value,
+    patternChar,
+    placeholderChar,
+    characterMappings,
+    onBlur,
+    onFocus,
+    onValueChange,
+    onCompositionEnd,
+    onCompositionStart,
+  })
+
+  // Index of the digit Backspace/Delete should remove, skipping literals ("-", " ") on the way
+  // null when there is no digit to remove in that direction
+  const findDigitToDelete = (target: HTMLInputElement, key: string) => {
+    const selectionStart = target.selectionStart ?? 0
+    const { start, end } = getEditableRange(target.value)
+    if (key === 'Backspace') {
+      for (let i = selectionStart - 1; i >= start; i--) {
+        if (DIGIT_PATTERN.test(target.value[i] ?? '')) return i
+      }
+    } else {
+      for (let i = selectionStart; i < end; i++) {
+        if (DIGIT_PATTERN.test(target.value[i] ?? '')) return i
+      }
+    }
+    return null
+  }
+
+  return (
+    <input
+      ref={inputRef}
+      type="text"
+      inputMode="numeric"
+      value={displayValue}
+      className={className}
+      onCompositionEnd={handleCompositionEnd}
+      onCompositionStart={handleCompositionStart}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      onSelect={(e) => {
+        // Keep the caret and selection out of the leading literal and the empty slots
+        const target = e.currentTarget
+        const { start, end } = getEditableRange(target.value)
+        const selectionStart = target.selectionStart ?? 0
+        const selectionEnd = target.selectionEnd ?? 0
+        const clampedStart = Math.min(Math.max(selectionStart, start), end)
+        const clampedEnd = Math.min(Math.max(selectionEnd, start), end)
+
+        if (clampedStart !== selectionStart || clampedEnd !== selectionEnd) {
+          target.setSelectionRange(clampedStart, clampedEnd)
+        }
+
+        onSelect?.(e)
+      }}
+      onKeyDown={(e) => {
+        const target = e.currentTarget
+        const hasSelection = target.selectionStart !== target.selectionEnd
+
+        // Backspace/Delete next to a literal removes the nearest digit instead,
+        // since the literal would be put straight back by the mask
+        if (
+          (e.key === 'Backspace' || e.key === 'Delete') &&
+          !hasSelection &&
+          !e.nativeEvent.isComposing
+        ) {
+          const selectionStart = target.selectionStart ?? 0
+          const adjacentChar =
+            target.value[e.key === 'Backspace' ? selectionStart - 1 : selectionStart] ?? ''
+
+          if (!DIGIT_PATTERN.test(adjacentChar)) {
+            e.preventDefault()
+            const digitIndex = findDigitToDelete(target, e.key)
+
+            if (digitIndex !== null) {
+              const nextValue =
+                target.value.slice(0, digitIndex) + target.value.slice(digitIndex + 1)
+
+              handleValueChange(nextValue, {
+                selectionContext: {
+                  displayValue: nextValue,
+                  selectionStart: e.key === 'Backspace' ? digitIndex : selectionStart,
+                  selectionEnd: e.key === 'Backspace' ? digitIndex : selectionStart,
+                },
+              })
+            }
+          }
+        }
+
+        onKeyDown?.(e)
+      }}
+      onChange={(e) => {
+        // Skip onChange if we just processed composition to avoid duplicate processing
+        if (hasProcessedComposition.current) {
+          return
+        }
+        const target = e.target
+        handleValueChange(target.value, {
+          selectionContext: {
+            displayValue: target.value,
+            selectionStart: target.selectionStart ?? 0,
+            selectionEnd: target.selectionEnd ?? 0,
+          },
+        })
+      }}
+      {...props}
+    />
+  )
+}
+
+export { PatternNumericInput }
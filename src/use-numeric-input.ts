@@ -1,79 +1,304 @@
 import {
+  type ClipboardEvent,
   type CompositionEvent,
+  type DragEvent,
   type FocusEvent,
+  type KeyboardEvent,
+  type Ref,
   useCallback,
   useEffect,
+  useImperativeHandle,
   useMemo,
   useRef,
   useState,
 } from 'react'
 import {
+  addDecimalStrings,
+  applySignStyle,
+  CJK_DECIMAL_MARKS,
+  compareDecimalStrings,
   convertFullWidthToHalfWidth,
   countDigitsBefore,
+  delocalizeNumericInput,
+  DEFAULT_NUMBER_SYMBOLS,
+  getCurrencyFormat,
+  getDefaultMagnitudeSuffixes,
+  getLocaleGrouping,
+  getPercentFormat,
+  getSuffixForms,
+  getLocaleSymbols,
+  groupIntegerDigits,
   isMinusSign,
+  LOCAL_DECIMAL_MARKS,
+  MAX_EXACT_EXPONENT,
+  localizeNumericString,
+  matchMagnitudeSuffix,
+  multiplyByMagnitude,
+  normalizeDigits,
   normalizeMinusSign,
   normalizeNumericInput,
+  normalizeSignDisplay,
+  padFractionDigits,
+  parseKanjiNumeral,
+  parsePastedNumber,
   parseValueProp,
   positionAfterDigitCount,
+  resolveGrouping,
+  roundDecimalString,
+  resolveLocale,
+  selectSuffix,
+  shiftDecimalPoint,
+  splitExponent,
+  stripAffixes,
+  toDecimalString,
+  toExponentDecimalString,
+  toExponentString,
+  toNumberingSystem,
+  toPlainNumberString,
+  type NumberSymbols,
 } from './numeric-input.utils'
-import type { NumericInputValue, NumericInputProps } from './numeric-input.types'
+import type {
+  NumericBlurredFormat,
+  NumericCurrencyDisplay,
+  NumericExponentDisplay,
+  NumericGrouping,
+  NumericInputPlugin,
+  NumericInputValue,
+  NumericInputProps,
+  NumericMagnitudeSuffixes,
+  NumericNegativeStyle,
+  NumericPasteParse,
+  NumericPluginContext,
+  NumericRoundingMode,
+  NumericScrubTarget,
+  NumericSignDisplay,
+  NumericStepFunction,
+  NumericStepMultipliers,
+  NumericSuffix,
+  NumericValueType,
+  NumericWheelBehavior,
+} from './numeric-input.types'
+
+// Value object before conversion to the reported valueType; strings are canonical decimals
+type DisplayValueObject = {
+  value: number | string | undefined
+  formattedValue: string
+}
+
+const NO_PLUGINS: readonly NumericInputPlugin[] = []
+
+const DEFAULT_STEP_MULTIPLIERS: Required<NumericStepMultipliers> = {
+  shift: 10,
+  alt: 0.1,
+  page: 10,
+}
+
+// Wheel movement per step by WheelEvent.deltaMode (pixels, lines, pages): one mouse wheel notch
+// Trackpads send many small pixel deltas that add up to steps
+const WHEEL_DELTA_PER_STEP = [100, 3, 1]
 
-type UseNumericInputOptions = {
-  value: NumericInputProps['value']
+type UseNumericInputOptions<T extends NumericValueType> = {
+  value: NumericInputProps<T>['value']
+  valueType?: T
   separator?: string
+  locale?: string
+  numberingSystem?: string
+  decimalSeparator?: string
+  grouping?: NumericGrouping
+  prefix?: string
+  suffix?: NumericSuffix
+  currency?: string
+  currencyDisplay?: NumericCurrencyDisplay
+  percent?: boolean
+  percentBounds?: 'fraction' | 'percent'
   allowDecimal?: boolean
   allowNegative?: boolean
-  minValue?: number
-  maxValue?: number
+  minValue?: number | string | bigint
+  maxValue?: number | string | bigint
   maxDecimalPlaces?: number
+  maxIntegerDigits?: number
+  maxSignificantDigits?: number
+  digitLimitBehavior?: 'truncate' | 'reject'
+  roundingMode?: NumericRoundingMode
+  fixedDecimalScale?: boolean
+  magnitudeSuffixes?: boolean | NumericMagnitudeSuffixes
+  blurredFormat?: NumericBlurredFormat
+  allowExponent?: boolean
+  exponentDisplay?: NumericExponentDisplay
+  kanjiNumerals?: boolean
+  characterMappings?: Record<string, string>
+  negativeStyle?: NumericNegativeStyle
+  signDisplay?: NumericSignDisplay
+  plugins?: readonly NumericInputPlugin[]
+  step?: number | string | NumericStepFunction
+  stepMultipliers?: NumericStepMultipliers
+  wheelBehavior?: NumericWheelBehavior
+  scrubRef?: Ref<NumericScrubTarget>
   maxLength?: number
-  onValueChange?: (valueObject: NumericInputValue) => void
-  onCompositionStart?: NumericInputProps['onCompositionStart']
-  onCompositionEnd?: NumericInputProps['onCompositionEnd']
-  onBlur?: NumericInputProps['onBlur']
+  onValueChange?: (valueObject: NumericInputValue<T>) => void
+  onCompositionStart?: NumericInputProps<T>['onCompositionStart']
+  onCompositionEnd?: NumericInputProps<T>['onCompositionEnd']
+  onBlur?: NumericInputProps<T>['onBlur']
+  onFocus?: NumericInputProps<T>['onFocus']
+  onPaste?: NumericInputProps<T>['onPaste']
+  onDrop?: NumericInputProps<T>['onDrop']
+  onPasteParse?: (parse: NumericPasteParse) => boolean | void
 }
 
-export const useNumericInput = (options: UseNumericInputOptions) => {
+export const useNumericInput = <T extends NumericValueType = 'number'>(
+  options: UseNumericInputOptions<T>,
+) => {
   const {
     value,
-    maxValue,
-    minValue,
+    valueType = 'number',
+    maxValue: maxValueOption,
+    minValue: minValueOption,
     separator,
+    locale: localeOption,
+    numberingSystem,
+    decimalSeparator,
+    grouping,
+    prefix: prefixOption,
+    suffix: suffixOption,
+    currency,
+    currencyDisplay,
+    percent = false,
+    percentBounds = 'fraction',
     maxLength,
-    maxDecimalPlaces,
-    allowDecimal = false,
+    maxDecimalPlaces: maxDecimalPlacesOption,
+    maxIntegerDigits,
+    maxSignificantDigits,
+    digitLimitBehavior = 'truncate',
+    roundingMode,
+    allowDecimal: allowDecimalOption,
     allowNegative = false,
+    fixedDecimalScale = false,
+    magnitudeSuffixes,
+    blurredFormat,
+    allowExponent = false,
+    exponentDisplay = 'auto',
+    kanjiNumerals = false,
+    characterMappings,
+    negativeStyle = 'minus',
+    signDisplay = 'auto',
+    plugins = NO_PLUGINS,
+    step: stepOption,
+    stepMultipliers,
+    wheelBehavior = 'none',
+    scrubRef,
     onBlur,
+    onFocus,
     onValueChange,
     onCompositionEnd,
     onCompositionStart,
+    onPaste,
+    onDrop,
+    onPasteParse,
   } = options
 
+  // Currency mode: symbol placement and minor units come from Intl for the ISO 4217 code
+  // Explicit props still take precedence over the currency defaults
+  const currencyFormat = useMemo(
+    () =>
+      currency
+        ? getCurrencyFormat(currency, localeOption, currencyDisplay)
+        : undefined,
+    [currency, localeOption, currencyDisplay],
+  )
+  // Percent mode: users type percentages, values are reported as fractions (12.5% → 0.125)
+  const percentFormat = useMemo(
+    () => (percent ? getPercentFormat(localeOption) : undefined),
+    [percent, localeOption],
+  )
+  const modeFormat = currencyFormat ?? percentFormat
+  // Without a locale, plain inputs keep the fixed "." and "-" symbols they had before locale support,
+  // so existing forms don't change with the browser language; currency and percent modes were
+  // locale-aware from the start and follow navigator.language. Pass locale="auto" to opt in
+  const locale = localeOption ?? (modeFormat ? 'auto' : undefined)
+  const prefix = prefixOption ?? modeFormat?.prefix
+  const suffix = suffixOption ?? modeFormat?.suffix
+  // The sign goes before the prefix ("-$5.00") unless the currency or percent format puts it after ("€ -5,00")
+  const signBeforePrefix =
+    !!prefix && !(prefixOption === undefined && modeFormat?.signAfterPrefix)
+  const maxDecimalPlaces = maxDecimalPlacesOption ?? currencyFormat?.minorUnits
+  // Wheel-to-adjust and scrubbing step by 1 unless a step is given
+  const step = stepOption ?? (wheelBehavior !== 'none' || scrubRef ? 1 : undefined)
+  // String and bigint values are exact: they never go through float
+  const isExactValue = valueType !== 'number'
+  // bigint values have no fraction digits, so decimals are off in bigint mode
+  const allowDecimal =
+    valueType !== 'bigint' &&
+    (allowDecimalOption ?? (currencyFormat ? currencyFormat.minorUnits > 0 : false))
+
+  // Min/max are kept as decimal strings so string and bigint bounds keep their precision
+  // They are compared with the displayed number, so fraction bounds are scaled in percent mode
+  const toDisplayBound = (bound: number | string | bigint | undefined) => {
+    if (bound === undefined) {
+      return undefined
+    }
+    const decimal = toDecimalString(bound)
+    return percent && percentBounds === 'fraction'
+      ? shiftDecimalPoint(decimal, 2)
+      : decimal
+  }
+  const minValue = toDisplayBound(minValueOption)
+  const maxValue = toDisplayBound(maxValueOption)
+
   // Validate min/max values
-  if (minValue !== undefined && maxValue !== undefined && minValue > maxValue) {
+  if (
+    minValue !== undefined &&
+    maxValue !== undefined &&
+    compareDecimalStrings(minValue, maxValue) > 0
+  ) {
     console.warn(
       'NumericInput: minValue should be less than or equal to maxValue',
     )
   }
 
+  if (valueType === 'bigint' && allowDecimalOption) {
+    console.warn('NumericInput: allowDecimal is ignored when valueType is "bigint"')
+  }
+
+  if (separator !== undefined && separator !== '' && separator === decimalSeparator) {
+    console.warn(
+      'NumericInput: separator and decimalSeparator should be different',
+    )
+  }
+
   const isComposing = useRef(false)
   const inputRef = useRef<HTMLInputElement | null>(null)
   // Store the raw input value during IME composition
   const [composingValue, setComposingValue] = useState<string>('')
   // Track if we've already processed the value from composition end
   const hasProcessedComposition = useRef(false)
+  // Typed text shown while a magnitude suffix is still ambiguous (e.g. "2m" when "mm" exists)
+  const [magnitudeDraft, setMagnitudeDraft] = useState<string>('')
   // Store the raw input string to preserve leading zeros
   const [rawInputValue, setRawInputValue] = useState<string>('')
   // Pending cursor restore: digit counts before cursor so we can restore position after format
   const pendingCursorRef = useRef<{ digitCountStart: number; digitCountEnd: number } | null>(null)
   // Internal state for uncontrolled mode
-  const [internalValue, setInternalValue] = useState<NumericInputValue>({
+  const [internalValue, setInternalValue] = useState<NumericInputValue<T>>({
     value: undefined,
     formattedValue: '',
   })
   // Track previous value prop to detect external changes
   // Initialize to undefined to detect first render
   const prevValueRef = useRef<typeof value>(undefined)
+  // Track focus so fixed decimal scale only pads while the user isn't typing
+  // The ref is read by callbacks that run during blur, before the state update lands
+  const [isFocused, setIsFocused] = useState(false)
+  const isFocusedRef = useRef(false)
+  // Latest blurred display, read on focus to decide whether the caret needs placing
+  const blurredDisplayRef = useRef<string | undefined>(undefined)
+  // Latest display value, put back when an edit is rejected
+  const displayValueRef = useRef('')
+  // Last stepped value until it renders, so steps in quick succession build on each other
+  const pendingStepValueRef = useRef<string | undefined>(undefined)
+  // Wheel movement that hasn't added up to a whole step yet
+  const wheelDeltaRef = useRef(0)
+  // Set while a scrub reports its value on release; holds the last scrubbed value
+  const deferredScrubRef = useRef<{ value: string | undefined } | null>(null)
   // Track if user has actively cleared the input (to distinguish from initial empty state)
   const [userCleared, setUserCleared] = useState(false)
   
@@ -82,43 +307,443 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
   // Uncontrolled: value is not provided (onValueChange may still be provided for callbacks)
   const isControlled = value !== undefined
 
-  const formatValue = useCallback(
-    (numValue: number): string => {
-      if (Number.isNaN(numValue) || !Number.isFinite(numValue)) {
-        return ''
+  // Resolve grouping, decimal and minus symbols
+  // Explicit separator props take precedence over the locale's symbols
+  const numberSymbols = useMemo<NumberSymbols>(() => {
+    const localeSymbols =
+      locale !== undefined ? getLocaleSymbols(locale) : DEFAULT_NUMBER_SYMBOLS
+    return {
+      ...localeSymbols,
+      group: separator ?? localeSymbols.group,
+      decimal: decimalSeparator || localeSymbols.decimal,
+    }
+  }, [locale, separator, decimalSeparator])
+
+  // Digit group sizes: explicit grouping prop, then the locale's pattern, then thousands
+  const groupingPattern = useMemo(
+    () =>
+      grouping === undefined && locale !== undefined
+        ? getLocaleGrouping(locale)
+        : resolveGrouping(grouping),
+    [grouping, locale],
+  )
+
+  // Characters that keep their place relative to the caret when reformatting
+  // The decimal point is only an anchor when it can't be confused with grouping
+  // An ASCII or full-width '.' is read as the decimal point wherever it can't be a group separator
+  // Accounting parentheses and a minus before the prefix sit outside the editable range, so they are no anchor
+  const caretAnchorChars = useMemo(() => {
+    const minusSigns =
+      negativeStyle === 'parentheses' || signBeforePrefix
+        ? []
+        : negativeStyle === 'typographic'
+          ? [numberSymbols.minusSign, '\u2212']
+          : [numberSymbols.minusSign]
+    const anchors =
+      numberSymbols.decimal === numberSymbols.group
+        ? [...minusSigns]
+        : [
+            numberSymbols.decimal,
+            ...LOCAL_DECIMAL_MARKS,
+            ...CJK_DECIMAL_MARKS,
+            ...minusSigns,
+          ]
+    if (numberSymbols.group !== '.' && !anchors.includes('.')) {
+      anchors.push('.', '．')
+    }
+    return allowExponent ? [...anchors, 'e'] : anchors
+  }, [numberSymbols, allowExponent, negativeStyle, signBeforePrefix])
+
+  const suffixForms = useMemo(() => getSuffixForms(suffix), [suffix])
+
+  const magnitudeSuffixMap = useMemo(
+    () =>
+      magnitudeSuffixes === true
+        ? getDefaultMagnitudeSuffixes(locale)
+        : magnitudeSuffixes || undefined,
+    [magnitudeSuffixes, locale],
+  )
+
+  // Signs that may be written before the prefix ("-$5", "+$5") or around prefix and suffix ("($5.00)")
+  const outerSigns = useMemo(
+    () => [
+      ...(negativeStyle === 'parentheses' ? ['('] : []),
+      numberSymbols.minusSign,
+      '-',
+      '\u2212',
+      '+',
+    ],
+    [numberSymbols, negativeStyle],
+  )
+
+  // Remove prefix/suffix text so only the number is parsed
+  const stripValueAffixes = useCallback(
+    (text: string) => stripAffixes(text, prefix, suffixForms, outerSigns),
+    [prefix, suffixForms, outerSigns],
+  )
+
+  // Convert full-width and CJK characters (plus custom mappings) to the half-width forms parsing expects
+  const toHalfWidth = useCallback(
+    (text: string) =>
+      convertFullWidthToHalfWidth(text, numberSymbols, characterMappings),
+    [numberSymbols, characterMappings],
+  )
+
+  // Write the digits of formatted numeric text in the numbering system (e.g. "arab", "fullwide")
+  const toDisplayDigits = useCallback(
+    (numericText: string) => toNumberingSystem(numericText, numberingSystem),
+    [numberingSystem],
+  )
+
+  // Wrap formatted numeric text with prefix/suffix; empty input stays empty so the placeholder shows
+  const applyAffixes = useCallback(
+    (numericText: string) => {
+      if (numericText === '' || (!prefix && !suffix)) {
+        return numericText
       }
+      const count = Number(
+        delocalizeNumericInput(
+          normalizeSignDisplay(normalizeDigits(numericText, numberSymbols)),
+          numberSymbols,
+        ),
+      )
+      const sign = signBeforePrefix
+        ? ([numberSymbols.minusSign, '-'].find((minus) => numericText.startsWith(minus)) ?? '')
+        : ''
+      return `${sign}${prefix ?? ''}${numericText.slice(sign.length)}${selectSuffix(suffix, count, locale)}`
+    },
+    [prefix, suffix, locale, numberSymbols, signBeforePrefix],
+  )
 
-      const valueStr = numValue.toString()
+  // Range of the display text the caret may enter (excludes prefix, suffix and accounting parentheses)
+  // sign is the accounting "(" or a sign written before the prefix, which Backspace at the start of the range removes
+  const getEditableRange = useCallback(
+    (text: string) => {
+      const sign =
+        negativeStyle === 'parentheses' && text.startsWith('(')
+          ? '('
+          : (prefix && outerSigns.find((outerSign) => text.startsWith(outerSign + prefix))) || ''
+      let start = sign.length
+      if (prefix && text.startsWith(prefix, start)) {
+        start += prefix.length
+      }
+      let end = sign === '(' && text.length > start && text.endsWith(')') ? text.length - 1 : text.length
+      const suffixForm = suffixForms.find(
+        (form) => end - form.length >= start && text.startsWith(form, end - form.length),
+      )
+      end -= suffixForm?.length ?? 0
+      return { start, end, sign }
+    },
+    [prefix, suffixForms, negativeStyle, outerSigns],
+  )
 
-      // If no separator, return as is
-      if (!separator) {
-        return valueStr
+  // Style the sign of display text outside the prefix and suffix (typographic minus, parentheses, explicit plus)
+  // An explicit plus goes where the minus would: before the prefix unless the currency or percent format says otherwise
+  const applySign = useCallback(
+    (text: string) =>
+      applySignStyle(
+        text,
+        numberSymbols.minusSign,
+        negativeStyle,
+        signDisplay,
+        prefix && !signBeforePrefix && text.startsWith(prefix) ? prefix.length : 0,
+      ),
+    [numberSymbols, negativeStyle, signDisplay, prefix, signBeforePrefix],
+  )
+
+  const pluginContext = useMemo<NumericPluginContext>(
+    () => ({
+      groupSeparator: numberSymbols.group,
+      decimalSeparator: numberSymbols.decimal,
+      minusSign: numberSymbols.minusSign,
+    }),
+    [numberSymbols],
+  )
+
+  // Plugin parse stages, in array order, on text without prefix/suffix
+  const runParseStages = useCallback(
+    (text: string) =>
+      plugins.reduce(
+        (result, plugin) => (plugin.parse ? plugin.parse(result, pluginContext) : result),
+        text,
+      ),
+    [plugins, pluginContext],
+  )
+
+  // Plugin validate stages on a complete decimal value: undefined rejects it,
+  // otherwise the (possibly replaced) value in canonical form
+  const runValidateStages = useCallback(
+    (value: string): string | undefined => {
+      let result: string | undefined = value
+      for (const plugin of plugins) {
+        if (result === undefined || !plugin.validate) continue
+        const verdict = plugin.validate(result, pluginContext)
+        result =
+          verdict === false
+            ? undefined
+            : typeof verdict === 'string'
+              ? parseValueProp(verdict)
+              : result
+      }
+      return result
+    },
+    [plugins, pluginContext],
+  )
+
+  // Formatted numeric text → display text: plugin format stages, numbering system, affixes, sign style
+  const toDisplayText = useCallback(
+    (numericText: string) =>
+      applySign(
+        applyAffixes(
+          toDisplayDigits(
+            plugins.reduce(
+              (result, plugin) =>
+                plugin.format ? plugin.format(result, pluginContext) : result,
+              numericText,
+            ),
+          ),
+        ),
+      ),
+    [plugins, pluginContext, applySign, toDisplayDigits, applyAffixes],
+  )
+
+  // Parse the value prop into the displayed number, as a canonical decimal string
+  // Numbers and bigints are reported values, so fractions in percent mode. Strings are display text
+  // (formattedValue), except that string and bigint modes read a plain decimal ("1234.5") as the reported value
+  const parseValue = useCallback(
+    (valueProp: typeof value) => {
+      const isReportedValue =
+        typeof valueProp === 'number' ||
+        typeof valueProp === 'bigint' ||
+        (isExactValue && typeof valueProp === 'string' && /^-?\d+(\.\d+)?$/.test(valueProp))
+      if (isReportedValue) {
+        const decimal = parseValueProp(valueProp)
+        return percent && decimal !== undefined ? shiftDecimalPoint(decimal, 2) : decimal
+      }
+      return parseValueProp(
+        typeof valueProp === 'string'
+          ? normalizeSignDisplay(runParseStages(stripValueAffixes(valueProp)))
+          : valueProp,
+        numberSymbols,
+      )
+    },
+    [percent, isExactValue, stripValueAffixes, runParseStages, numberSymbols],
+  )
+
+  // Convert the displayed number to the reported value, shifting digits to avoid float noise
+  // String and bigint values are built from the decimal digits directly
+  const toReportedValue = useCallback(
+    (displayValue: number | string | undefined): NumericInputValue<T>['value'] => {
+      if (displayValue === undefined) {
+        return undefined
+      }
+      if (valueType === 'number') {
+        const displayNumber = Number(displayValue)
+        return (
+          percent && Number.isFinite(displayNumber)
+            ? Number(shiftDecimalPoint(toPlainNumberString(displayNumber), -2))
+            : displayNumber
+        ) as NumericInputValue<T>['value']
+      }
+
+      // "12." → "12", "-0" → "0"
+      const decimal = toDecimalString(displayValue).replace(/\.$/, '')
+      const reported = percent
+        ? shiftDecimalPoint(decimal, -2)
+        : compareDecimalStrings(decimal, '0') === 0
+          ? decimal.replace('-', '')
+          : decimal
+      return (
+        valueType === 'bigint' ? BigInt(reported.split('.')[0]) : reported
+      ) as NumericInputValue<T>['value']
+    },
+    [percent, valueType],
+  )
+
+  // Pad fraction digits to maxDecimalPlaces when fixedDecimalScale is on
+  const padFixedScale = useCallback(
+    (numericText: string) =>
+      fixedDecimalScale &&
+      allowDecimal &&
+      maxDecimalPlaces !== undefined &&
+      numberSymbols.group !== numberSymbols.decimal
+        ? padFractionDigits(numericText, numberSymbols.decimal, maxDecimalPlaces)
+        : numericText,
+    [fixedDecimalScale, allowDecimal, maxDecimalPlaces, numberSymbols],
+  )
+
+  // Notify the parent and keep internal state in sync for uncontrolled mode
+  // Once the input isn't focused, formattedValue carries the fixed decimal scale
+  // formattedValue matches the display, digits included; value stays a plain number
+  const emitValueChange = useCallback(
+    (valueObject: DisplayValueObject) => {
+      const formattedValue = isFocusedRef.current
+        ? valueObject.formattedValue
+        : padFixedScale(valueObject.formattedValue)
+      const nextValueObject = {
+        value: toReportedValue(valueObject.value),
+        formattedValue: toDisplayText(formattedValue),
       }
+      if (onValueChange) {
+        onValueChange(nextValueObject)
+      }
+      if (!isControlled) {
+        setInternalValue(nextValueObject)
+      }
+    },
+    [toReportedValue, padFixedScale, toDisplayText, onValueChange, isControlled],
+  )
 
-      // Split into integer and decimal parts
-      const [integerPart, decimalPart] = valueStr.split('.')
+  // Numbers are formatted from their float value; strings are canonical decimals and keep every digit
+  // exponentDisplay applies to committed and external values; text being edited keeps all its digits
+  const formatValue = useCallback(
+    (numValue: number | string, applyExponentDisplay: boolean): string => {
+      if (
+        typeof numValue === 'number' &&
+        (Number.isNaN(numValue) || !Number.isFinite(numValue))
+      ) {
+        return ''
+      }
 
-      // Format integer part with separator (thousands separator)
-      const formattedInteger = integerPart.replace(
-        /\B(?=(\d{3})+(?!\d))/g,
-        separator,
+      const valueStr =
+        typeof numValue === 'string'
+          ? allowExponent && applyExponentDisplay
+            ? toExponentDecimalString(numValue, exponentDisplay)
+            : numValue
+          : allowExponent
+            ? toExponentString(numValue, applyExponentDisplay ? exponentDisplay : 'never')
+            : numValue.toString()
+
+      // Split off the exponent, then into integer and decimal parts
+      const [mantissa, exponent] = valueStr.split('e')
+      const [integerPart, decimalPart] = mantissa.split('.')
+      const isNegative = integerPart.startsWith('-')
+      const integerDigits = isNegative ? integerPart.slice(1) : integerPart
+
+      // Format integer part with separator (thousands separator by default)
+      const groupedInteger = groupIntegerDigits(
+        integerDigits,
+        numberSymbols.group,
+        groupingPattern,
       )
+      const formattedInteger = isNegative
+        ? `${numberSymbols.minusSign}${groupedInteger}`
+        : groupedInteger
 
       // Combine with decimal part if exists
-      return decimalPart !== undefined
-        ? `${formattedInteger}.${decimalPart}`
-        : formattedInteger
+      const formattedMantissa =
+        decimalPart !== undefined
+          ? `${formattedInteger}${numberSymbols.decimal}${decimalPart}`
+          : formattedInteger
+      return exponent !== undefined
+        ? `${formattedMantissa}e${localizeNumericString(exponent, numberSymbols)}`
+        : formattedMantissa
+    },
+    [numberSymbols, groupingPattern, allowExponent, exponentDisplay],
+  )
+
+  // Format a canonical decimal string; number mode reads it back as a float first
+  // Values are committed once the input isn't focused, so that is when exponentDisplay applies by default
+  const formatDecimal = useCallback(
+    (decimal: string, applyExponentDisplay = !isFocusedRef.current) =>
+      formatValue(isExactValue ? decimal : Number(decimal), applyExponentDisplay),
+    [formatValue, isExactValue],
+  )
+
+  // Format intermediate typing states ("0.", "-0.05", "1234.", "1234.50") without dropping typed characters
+  // A trailing decimal point or typed fraction keeps the grouped integer part unless grouping uses the same symbol
+  const formatPartialValue = useCallback(
+    (raw: string): string => {
+      const normalizedRaw = normalizeMinusSign(raw)
+      // Typed exponent ("1,234.5e-"): group the mantissa, keep the rest as typed
+      const exponentIndex = normalizedRaw.indexOf('e')
+      if (exponentIndex !== -1) {
+        const [integerPart, decimalPart] = normalizedRaw
+          .slice(0, exponentIndex)
+          .split('.')
+        const isNegative = integerPart.startsWith('-')
+        const groupedInteger = groupIntegerDigits(
+          isNegative ? integerPart.slice(1) : integerPart,
+          numberSymbols.group,
+          groupingPattern,
+        )
+        const mantissa = `${isNegative ? numberSymbols.minusSign : ''}${groupedInteger}${
+          decimalPart !== undefined ? `${numberSymbols.decimal}${decimalPart}` : ''
+        }`
+        return `${mantissa}e${localizeNumericString(
+          normalizedRaw.slice(exponentIndex + 1),
+          numberSymbols,
+        )}`
+      }
+      const decimalIndex = normalizedRaw.indexOf('.')
+      if (
+        decimalIndex !== -1 &&
+        !/^-?0\./.test(normalizedRaw) &&
+        numberSymbols.group !== numberSymbols.decimal
+      ) {
+        return `${formatDecimal(normalizedRaw.slice(0, decimalIndex), false)}${
+          numberSymbols.decimal
+        }${normalizedRaw.slice(decimalIndex + 1)}`
+      }
+      return localizeNumericString(normalizedRaw, numberSymbols)
+    },
+    [formatDecimal, numberSymbols, groupingPattern],
+  )
+
+  // Round external values to the fraction limit when a rounding mode is set
+  const roundToScale = useCallback(
+    (decimal: string) => {
+      const fractionLimit = allowDecimal ? maxDecimalPlaces : 0
+      return roundingMode !== undefined && fractionLimit !== undefined
+        ? roundDecimalString(decimal, fractionLimit, roundingMode)
+        : decimal
     },
-    [separator],
+    [allowDecimal, maxDecimalPlaces, roundingMode],
   )
 
+  // carriedDigits: integer digits added in front by rounding ("9.999" → "10.00"),
+  // so a caret after the first digit moves along with the digits it followed
   const scheduleCursorRestore = useCallback(
-    (ctx: { displayValue: string; selectionStart: number; selectionEnd: number }) => {
+    (
+      ctx: { displayValue: string; selectionStart: number; selectionEnd: number },
+      carriedDigits = 0,
+    ) => {
+      // Count only within the numeric part so prefix/suffix characters are never anchors
+      // Leading zeros (e.g. padding added by a plugin format stage) don't count either
+      const { start, end } = getEditableRange(ctx.displayValue)
+      const numericText = ctx.displayValue.slice(start, end)
+      const countBefore = (position: number) => {
+        const count = countDigitsBefore(
+          numericText,
+          Math.max(position - start, 0),
+          caretAnchorChars,
+          true,
+        )
+        return count > 0 ? count + carriedDigits : count
+      }
       pendingCursorRef.current = {
-        digitCountStart: countDigitsBefore(ctx.displayValue, ctx.selectionStart),
-        digitCountEnd: countDigitsBefore(ctx.displayValue, ctx.selectionEnd),
+        digitCountStart: countBefore(ctx.selectionStart),
+        digitCountEnd: countBefore(ctx.selectionEnd),
       }
     },
+    [caretAnchorChars, getEditableRange],
+  )
+
+  // Undo an edit in place: restore the previous text and put the caret back where the edit started
+  // No state changes, so the controlled value stays as it was
+  const rejectEdit = useCallback(
+    (ctx: { displayValue: string; selectionStart: number }) => {
+      const input = inputRef.current
+      if (!input) return
+      const previousValue = displayValueRef.current
+      const insertedLength = Math.max(ctx.displayValue.length - previousValue.length, 0)
+      const caret = Math.min(
+        Math.max(ctx.selectionStart - insertedLength, 0),
+        previousValue.length,
+      )
+      input.value = previousValue
+      input.setSelectionRange(caret, caret)
+    },
     [],
   )
 
@@ -127,11 +752,21 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
       inputValue: string,
       options?:
         | boolean
-        | { skipCompositionCheck?: boolean; selectionContext?: { displayValue: string; selectionStart: number; selectionEnd: number } },
+        | {
+            skipCompositionCheck?: boolean
+            // Committing (blur/Enter) resolves input that is still ambiguous while typing
+            commit?: boolean
+            // Pasted or dropped text is rounded with roundingMode instead of truncated
+            round?: boolean
+            selectionContext?: { displayValue: string; selectionStart: number; selectionEnd: number }
+          },
     ) => {
       const skipCompositionCheck =
         typeof options === 'boolean' ? options : options?.skipCompositionCheck ?? false
-      const selectionContext =
+      const commit = typeof options === 'object' && (options?.commit ?? false)
+      const isPasted = typeof options === 'object' && (options?.round ?? false)
+      const round = roundingMode !== undefined && (commit || isPasted)
+      let selectionContext =
         typeof options === 'object' && options?.selectionContext
 
       // During IME composition, update the composing value for display
@@ -142,7 +777,7 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
         setRawInputValue(inputValue)
         // Still notify parent but don't process the value
         const valueObject = {
-          value: 0,
+          value: toReportedValue(0),
           formattedValue: inputValue,
         }
         if (onValueChange) {
@@ -154,28 +789,114 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
         return
       }
 
-      // Convert full-width Japanese characters to half-width
-      let rawValue = convertFullWidthToHalfWidth(inputValue)
+      // Run plugin parse stages, then convert full-width Japanese characters to half-width
+      let rawValue = toHalfWidth(runParseStages(stripValueAffixes(inputValue)))
+
+      // Read styled signs back: "+" is display only, and with accounting style a "(" means negative
+      rawValue = normalizeSignDisplay(rawValue, negativeStyle === 'parentheses')
+
+      // Read digits from any script (Arabic-Indic, Persian, Devanagari, ...) and their local marks
+      rawValue = normalizeDigits(rawValue, numberSymbols)
+
+      // Read localized grouping, decimal and minus symbols back into canonical form
+      rawValue = delocalizeNumericInput(rawValue, numberSymbols)
+
+      // Expand magnitude suffixes ("250k" → "250000") before letters are stripped
+      let isMagnitudePending = false
+      if (magnitudeSuffixMap) {
+        const magnitude = matchMagnitudeSuffix(rawValue, magnitudeSuffixMap, commit)
+        if (magnitude.status === 'pending') {
+          // Keep showing the typed text; report the number without the suffix meanwhile
+          isMagnitudePending = true
+          selectionContext = undefined
+          rawValue = magnitude.numberPart
+        } else if (magnitude.status === 'expanded') {
+          let expanded = magnitude.value
+          // Drop fraction digits the field can't hold (normalization would merge them into the integer)
+          const decimalIndex = expanded.indexOf('.')
+          const fractionLimit = allowDecimal ? maxDecimalPlaces : 0
+          if (decimalIndex !== -1 && fractionLimit !== undefined) {
+            expanded = expanded.slice(
+              0,
+              fractionLimit > 0 ? decimalIndex + 1 + fractionLimit : decimalIndex,
+            )
+          }
+          // An expansion that needs more digits than maxLength is ignored
+          const digitCount = (expanded.match(/\d/g) || []).length
+          rawValue =
+            maxLength && digitCount > maxLength ? magnitude.numberPart : expanded
+          // The digits changed entirely, so put the caret at the end
+          if (selectionContext) {
+            selectionContext = {
+              displayValue: rawValue,
+              selectionStart: rawValue.length,
+              selectionEnd: rawValue.length,
+            }
+          }
+        }
+      }
+      setMagnitudeDraft(isMagnitudePending ? inputValue : '')
+
+      // Split off an exponent ("6.022e23") so the mantissa goes through the usual normalization
+      // Negative exponents only make sense when fractions are allowed; without them the edit is
+      // refused, since dropping the minus would turn "1e-9" into "1e9"
+      // String and bigint modes keep every expanded digit, so exponents past MAX_EXACT_EXPONENT are refused
+      let exponentPart: string | undefined
+      if (allowExponent) {
+        const { mantissa, exponent } = splitExponent(rawValue)
+        if (
+          (!allowDecimal && exponent?.startsWith('-')) ||
+          (isExactValue && Math.abs(Number(exponent)) > MAX_EXACT_EXPONENT)
+        ) {
+          if (selectionContext) rejectEdit(selectionContext)
+          return
+        }
+        rawValue = mantissa
+        exponentPart = exponent
+      }
 
       // Remove scientific notation (e.g., "1e10", "1E10")
       // This prevents unexpected number conversions
       rawValue = rawValue.replace(/[eE]/g, '')
 
       // Normalize the input (remove invalid chars, handle decimals, negatives)
+      const unlimitedValue = normalizeNumericInput(rawValue, allowDecimal, allowNegative)
       rawValue = normalizeNumericInput(
         rawValue,
         allowDecimal,
         allowNegative,
         maxLength,
+        { maxIntegerDigits, maxSignificantDigits },
       )
 
+      // In reject mode, an edit that breaks a digit limit is undone instead of truncated
+      if (digitLimitBehavior === 'reject' && selectionContext && !round) {
+        const fractionLength = unlimitedValue.split('.')[1]?.length ?? 0
+        const exceedsDecimalPlaces =
+          allowDecimal && maxDecimalPlaces !== undefined && fractionLength > maxDecimalPlaces
+        if (rawValue !== unlimitedValue || exceedsDecimalPlaces) {
+          rejectEdit(selectionContext)
+          return
+        }
+      }
+
       // Limit decimal places if specified
+      // Typing truncates; paste and commit round with roundingMode
+      let carriedDigits = 0
       if (maxDecimalPlaces !== undefined && allowDecimal) {
         const decimalIndex = rawValue.indexOf('.')
         if (decimalIndex !== -1) {
           const integerPart = rawValue.slice(0, decimalIndex)
           const decimalPart = rawValue.slice(decimalIndex + 1)
-          if (decimalPart.length > maxDecimalPlaces) {
+          if (decimalPart.length > maxDecimalPlaces && round) {
+            rawValue = roundDecimalString(rawValue, maxDecimalPlaces, roundingMode)
+            const integerDigitCount = (value: string) =>
+              value.split('.')[0].replace(/\D/g, '').length
+            carriedDigits = Math.max(
+              integerDigitCount(rawValue) - integerDigitCount(integerPart),
+              0,
+            )
+          } else if (decimalPart.length > maxDecimalPlaces) {
             rawValue = `${integerPart}.${decimalPart.slice(0, maxDecimalPlaces)}`
           }
         }
@@ -193,12 +914,7 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
           value: undefined,
           formattedValue: '',
         }
-        if (onValueChange) {
-          onValueChange(valueObject)
-        }
-        if (!isControlled) {
-          setInternalValue(valueObject)
-        }
+        emitValueChange(valueObject)
         return
       }
       
@@ -214,14 +930,9 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
           setRawInputValue('-')
           const valueObject = {
             value: 0,
-            formattedValue: '-',
-          }
-          if (onValueChange) {
-            onValueChange(valueObject)
-          }
-          if (!isControlled) {
-            setInternalValue(valueObject)
+            formattedValue: numberSymbols.minusSign,
           }
+          emitValueChange(valueObject)
           return
         } else {
           // If negative is not allowed, treat as empty
@@ -272,49 +983,129 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
         }
       }
 
-      // Store the raw input value to preserve single "0" only
-      setRawInputValue(rawValue)
-
-      // Convert to number
-      const valueAsNumber = Number(rawValue)
+      // Exponent input keeps its typed form so more exponent digits can follow
+      // A dangling "e" or "e-" reports the mantissa until then, and is dropped on commit
+      if (exponentPart !== undefined && (/\d/.test(exponentPart) || !commit)) {
+        const hasExponentDigits = /\d/.test(exponentPart)
+        const exponentRaw = `${rawValue}e${exponentPart}`
+        // Expand the exponent on the digits, bounded to ±999 so the expansion stays small
+        const exponent = Math.max(Math.min(Number(exponentPart), 999), -999)
+        const exponentValue = hasExponentDigits
+          ? shiftDecimalPoint(rawValue, exponent)
+          : rawValue
+        // Number mode holds results past Number.MAX_SAFE_INTEGER at the limit, as it does typed digits
+        let finalValue =
+          isExactValue || Math.abs(Number(exponentValue)) <= Number.MAX_SAFE_INTEGER
+            ? exponentValue
+            : `${exponentValue.startsWith('-') ? '-' : ''}${Number.MAX_SAFE_INTEGER}`
+
+        if (hasExponentDigits) {
+          // Plugins validate the expanded value, as they do typed digits
+          if (plugins.length > 0) {
+            const validatedValue = runValidateStages(finalValue)
+            if (validatedValue === undefined) {
+              if (selectionContext) rejectEdit(selectionContext)
+              return
+            }
+            finalValue = validatedValue
+          }
+          if (minValue !== undefined && compareDecimalStrings(finalValue, minValue) < 0) {
+            finalValue = minValue
+          }
+          if (maxValue !== undefined && compareDecimalStrings(finalValue, maxValue) > 0) {
+            finalValue = maxValue
+          }
+        }
 
-      // Handle invalid numbers
-      if (Number.isNaN(valueAsNumber) || !Number.isFinite(valueAsNumber)) {
-        if (selectionContext) {
-          pendingCursorRef.current = { digitCountStart: 0, digitCountEnd: 0 }
+        // Clamped or committed values switch to the exponent display mode
+        if (finalValue !== exponentValue || commit) {
+          if (selectionContext) {
+            pendingCursorRef.current = {
+              digitCountStart: Number.POSITIVE_INFINITY,
+              digitCountEnd: Number.POSITIVE_INFINITY,
+            }
+          }
+          // Values clamped while typing stay editable digits; committed values take the display mode
+          setRawInputValue(
+            !commit
+              ? finalValue
+              : isExactValue
+                ? toExponentDecimalString(finalValue, exponentDisplay)
+                : toExponentString(Number(finalValue), exponentDisplay),
+          )
+          const valueObject = {
+            value: finalValue,
+            formattedValue: formatDecimal(finalValue),
+          }
+          emitValueChange(valueObject)
+          return
         }
-        setRawInputValue('')
+
+        if (selectionContext) scheduleCursorRestore(selectionContext)
+        setRawInputValue(exponentRaw)
         const valueObject = {
-          value: 0,
-          formattedValue: '',
-        }
-        if (onValueChange) {
-          onValueChange(valueObject)
-        }
-        if (!isControlled) {
-          setInternalValue(valueObject)
+          value: exponentValue,
+          formattedValue: formatPartialValue(exponentRaw),
         }
+        emitValueChange(valueObject)
         return
       }
 
-      // Handle value exceeding MAX_SAFE_INTEGER
-      if (Math.abs(valueAsNumber) > Number.MAX_SAFE_INTEGER) {
-        if (selectionContext) scheduleCursorRestore(selectionContext)
-        const clampedValue =
-          valueAsNumber > 0 ? Number.MAX_SAFE_INTEGER : -Number.MAX_SAFE_INTEGER
-        const clampedString = clampedValue.toString()
-        setRawInputValue(clampedString)
-        const valueObject = {
-          value: clampedValue,
-          formattedValue: formatValue(clampedValue),
+      // In number mode, typed fraction zeros ("1.0", "6.50") would be lost to the float,
+      // so they stay as typed for the next digit or exponent, as string mode keeps them
+      // Pasted and dropped values are complete, so their zeros are dropped ("1,234.50" → "1234.5")
+      let hasTrailingFractionZeros =
+        !isExactValue && allowDecimal && /\.\d*0$/.test(rawValue)
+      if (hasTrailingFractionZeros && isPasted) {
+        rawValue = rawValue.replace(/\.?0+$/, '')
+        hasTrailingFractionZeros = false
+      }
+
+      // Plugins validate complete values; a rejected edit leaves the input as it was
+      if (plugins.length > 0 && !rawValue.endsWith('.')) {
+        const validatedValue = runValidateStages(rawValue)
+        if (validatedValue === undefined) {
+          if (selectionContext) rejectEdit(selectionContext)
+          return
         }
-        if (onValueChange) {
-          onValueChange(valueObject)
+        rawValue = validatedValue
+      }
+
+      // Store the raw input value to preserve single "0" only
+      setRawInputValue(rawValue)
+
+      // Number mode reads the value as a float; string and bigint modes keep the digits
+      if (!isExactValue) {
+        const valueAsNumber = Number(rawValue)
+
+        // Handle invalid numbers
+        if (Number.isNaN(valueAsNumber) || !Number.isFinite(valueAsNumber)) {
+          if (selectionContext) {
+            pendingCursorRef.current = { digitCountStart: 0, digitCountEnd: 0 }
+          }
+          setRawInputValue('')
+          const valueObject = {
+            value: 0,
+            formattedValue: '',
+          }
+          emitValueChange(valueObject)
+          return
         }
-        if (!isControlled) {
-          setInternalValue(valueObject)
+
+        // Handle value exceeding MAX_SAFE_INTEGER
+        if (Math.abs(valueAsNumber) > Number.MAX_SAFE_INTEGER) {
+          if (selectionContext) scheduleCursorRestore(selectionContext, carriedDigits)
+          const clampedValue =
+            valueAsNumber > 0 ? Number.MAX_SAFE_INTEGER : -Number.MAX_SAFE_INTEGER
+          const clampedString = clampedValue.toString()
+          setRawInputValue(clampedString)
+          const valueObject = {
+            value: clampedValue,
+            formattedValue: formatValue(clampedValue, !isFocusedRef.current),
+          }
+          emitValueChange(valueObject)
+          return
         }
-        return
       }
 
       // Only preserve single "0" or "0." patterns (not multiple leading zeros like "01", "0123")
@@ -331,20 +1122,18 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
 
       // Apply min/max validation only for complete numbers (not intermediate typing states)
       // Allow intermediate values while typing (e.g., allow "1000" if max is 100, user might be typing "100")
-      let finalValue = valueAsNumber
+      // Values are compared as decimal strings, so precision beyond a float is kept
       let finalRawValue = rawValue
       let shouldClamp = false
 
-      // Only clamp if the value is complete (not ending with decimal point and not a single zero pattern)
-      if (!isSingleZero && !endsWithDecimalPoint) {
-        if (minValue !== undefined && finalValue < minValue) {
-          finalValue = minValue
-          finalRawValue = minValue.toString()
+      // Only clamp if the value is complete (not ending with decimal point or fraction zeros and not a single zero pattern)
+      if (!isSingleZero && !endsWithDecimalPoint && !hasTrailingFractionZeros) {
+        if (minValue !== undefined && compareDecimalStrings(finalRawValue, minValue) < 0) {
+          finalRawValue = minValue
           shouldClamp = true
         }
-        if (maxValue !== undefined && finalValue > maxValue) {
-          finalValue = maxValue
-          finalRawValue = maxValue.toString()
+        if (maxValue !== undefined && compareDecimalStrings(finalRawValue, maxValue) > 0) {
+          finalRawValue = maxValue
           shouldClamp = true
         }
       }
@@ -354,46 +1143,57 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
         setRawInputValue(finalRawValue)
       }
 
-      // If it's a single zero pattern or ends with decimal point, use the raw value for display
-      if (isSingleZero || endsWithDecimalPoint) {
-        if (selectionContext) scheduleCursorRestore(selectionContext)
-        // Use the raw value as-is to preserve single "0" or trailing decimal point
+      // If it's a single zero pattern or ends with decimal point or fraction zeros, use the raw value for display
+      if (isSingleZero || endsWithDecimalPoint || hasTrailingFractionZeros) {
+        if (selectionContext) scheduleCursorRestore(selectionContext, carriedDigits)
+        // Use the raw value as-is to preserve single "0", trailing decimal point or fraction zeros
         const valueObject = {
-          value: finalValue,
-          formattedValue: shouldClamp ? formatValue(finalValue) : rawValue,
-        }
-        if (onValueChange) {
-          onValueChange(valueObject)
-        }
-        if (!isControlled) {
-          setInternalValue(valueObject)
+          value: finalRawValue,
+          formattedValue: shouldClamp
+            ? formatDecimal(finalRawValue)
+            : formatPartialValue(rawValue),
         }
+        emitValueChange(valueObject)
         return
       }
 
       // Valid number without leading zeros - format and return
-      if (selectionContext) scheduleCursorRestore(selectionContext)
+      if (selectionContext) scheduleCursorRestore(selectionContext, carriedDigits)
       const valueObject = {
-        value: finalValue,
-        formattedValue: formatValue(finalValue),
-      }
-      if (onValueChange) {
-        onValueChange(valueObject)
-      }
-      if (!isControlled) {
-        setInternalValue(valueObject)
+        value: finalRawValue,
+        formattedValue: formatDecimal(finalRawValue),
       }
+      emitValueChange(valueObject)
     },
     [
       allowDecimal,
       allowNegative,
       maxLength,
+      maxIntegerDigits,
+      maxSignificantDigits,
+      digitLimitBehavior,
+      rejectEdit,
+      magnitudeSuffixMap,
       onValueChange,
+      emitValueChange,
+      stripValueAffixes,
+      toHalfWidth,
+      negativeStyle,
+      plugins,
+      runParseStages,
+      runValidateStages,
       formatValue,
-      separator,
+      formatDecimal,
+      formatPartialValue,
+      toReportedValue,
+      numberSymbols,
       minValue,
       maxValue,
       maxDecimalPlaces,
+      roundingMode,
+      allowExponent,
+      exponentDisplay,
+      isExactValue,
       isControlled,
       scheduleCursorRestore,
     ],
@@ -416,24 +1216,19 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
 
   // Helper to process value after conversion (used in composition end and blur)
   const processConvertedValue = useCallback(
-    (convertedValue: string) => {
+    (convertedValue: string, commit = false) => {
       if (allowNegative && convertedValue === '-') {
         setRawInputValue('-')
         const valueObject = {
           value: 0,
-          formattedValue: '-',
-        }
-        if (onValueChange) {
-          onValueChange(valueObject)
-        }
-        if (!isControlled) {
-          setInternalValue(valueObject)
+          formattedValue: numberSymbols.minusSign,
         }
+        emitValueChange(valueObject)
       } else {
-        handleValueChange(convertedValue, true)
+        handleValueChange(convertedValue, { skipCompositionCheck: true, commit })
       }
     },
-    [allowNegative, handleValueChange, onValueChange],
+    [allowNegative, handleValueChange, emitValueChange, numberSymbols],
   )
 
   const handleCompositionEnd = useCallback(
@@ -448,17 +1243,144 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
       }
 
       requestAnimationFrame(() => {
-        const convertedValue = convertFullWidthToHalfWidth(finalValue)
-        processConvertedValue(convertedValue)
+        const convertedValue = toHalfWidth(stripValueAffixes(finalValue))
+        // A kanji candidate (三万, 二〇二六) would otherwise be stripped to nothing
+        const kanjiValue = kanjiNumerals
+          ? parseKanjiNumeral(delocalizeNumericInput(convertedValue, numberSymbols))
+          : undefined
+        processConvertedValue(
+          kanjiValue === undefined
+            ? convertedValue
+            : localizeNumericString(kanjiValue, numberSymbols),
+        )
         hasProcessedComposition.current = false
       })
     },
-    [onCompositionEnd, processConvertedValue],
+    [onCompositionEnd, processConvertedValue, stripValueAffixes, toHalfWidth, kanjiNumerals, numberSymbols],
+  )
+
+  // Read pasted or dropped text as a formatted amount ("$1,234.56", "1.234,56 €", "(1,234)")
+  // Returns the localized number to insert, null when onPasteParse rejects it,
+  // or undefined to leave the text to the regular input path
+  const readPastedText = useCallback(
+    (text: string): string | null | undefined => {
+      const convertedText = toHalfWidth(text)
+      // Shorthand ("250k") and scientific notation are parsed by handleValueChange
+      const compactText = delocalizeNumericInput(convertedText.trim(), numberSymbols)
+      if (
+        (magnitudeSuffixMap &&
+          matchMagnitudeSuffix(compactText, magnitudeSuffixMap, true).status ===
+            'expanded') ||
+        (allowExponent && /\d\s*e[+-]?\d/i.test(compactText))
+      ) {
+        return undefined
+      }
+
+      const parsed = parsePastedNumber(convertedText, numberSymbols)
+      if (!parsed) {
+        return undefined
+      }
+      if (onPasteParse?.({ ...parsed, text }) === false) {
+        return null
+      }
+      return localizeNumericString(parsed.value, numberSymbols)
+    },
+    [toHalfWidth, numberSymbols, magnitudeSuffixMap, allowExponent, onPasteParse],
+  )
+
+  // The app's onPaste runs first and can call preventDefault to skip the paste parsing
+  const handlePaste = useCallback(
+    (e: ClipboardEvent<HTMLInputElement>) => {
+      onPaste?.(e)
+      if (e.defaultPrevented) {
+        return
+      }
+
+      const insertText = readPastedText(e.clipboardData.getData('text'))
+      if (insertText === undefined) {
+        return
+      }
+      e.preventDefault()
+      if (insertText === null) {
+        return
+      }
+
+      const target = e.currentTarget
+      const selectionStart = target.selectionStart ?? target.value.length
+      const selectionEnd = target.selectionEnd ?? selectionStart
+      const nextValue =
+        target.value.slice(0, selectionStart) +
+        insertText +
+        target.value.slice(selectionEnd)
+      const caretPosition = selectionStart + insertText.length
+
+      handleValueChange(nextValue, {
+        round: true,
+        selectionContext: {
+          displayValue: nextValue,
+          selectionStart: caretPosition,
+          selectionEnd: caretPosition,
+        },
+      })
+    },
+    [onPaste, readPastedText, handleValueChange],
+  )
+
+  // The drop point isn't available from the event, so a dropped amount replaces the number
+  const handleDrop = useCallback(
+    (e: DragEvent<HTMLInputElement>) => {
+      onDrop?.(e)
+      if (e.defaultPrevented) {
+        return
+      }
+
+      const insertText = readPastedText(e.dataTransfer.getData('text'))
+      if (insertText === undefined) {
+        return
+      }
+      e.preventDefault()
+      if (insertText === null) {
+        return
+      }
+
+      e.currentTarget.focus()
+      handleValueChange(insertText, {
+        round: true,
+        selectionContext: {
+          displayValue: insertText,
+          selectionStart: insertText.length,
+          selectionEnd: insertText.length,
+        },
+      })
+    },
+    [onDrop, readPastedText, handleValueChange],
+  )
+
+  const handleFocus = useCallback(
+    (e: FocusEvent<HTMLInputElement>) => {
+      isFocusedRef.current = true
+      setIsFocused(true)
+
+      // Swapping the blurred display for the editable one loses the caret, so put it after the last digit
+      if (blurredDisplayRef.current !== undefined) {
+        pendingCursorRef.current = {
+          digitCountStart: Number.POSITIVE_INFINITY,
+          digitCountEnd: Number.POSITIVE_INFINITY,
+        }
+      }
+
+      if (onFocus) {
+        onFocus(e)
+      }
+    },
+    [onFocus],
   )
 
   const handleBlur = useCallback(
     (e: FocusEvent<HTMLInputElement>) => {
-      const currentValue = e.target.value
+      isFocusedRef.current = false
+      setIsFocused(false)
+      const currentValue = stripValueAffixes(e.target.value)
       const shouldPreserveMinus =
         allowNegative && (isMinusSign(rawInputValue) || isMinusSign(currentValue))
       const isNativeComposing = Boolean(
@@ -474,44 +1396,38 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
         }
         return
       } else if (composingValue !== '') {
-        const convertedValue = convertFullWidthToHalfWidth(composingValue)
-        processConvertedValue(convertedValue)
+        const convertedValue = toHalfWidth(stripValueAffixes(composingValue))
+        processConvertedValue(convertedValue, true)
         setComposingValue('')
-      } else if (!hasProcessedComposition.current && e.target.value) {
-        const convertedValue = convertFullWidthToHalfWidth(e.target.value)
-        handleValueChange(convertedValue, true)
+      } else if (!hasProcessedComposition.current && currentValue) {
+        const convertedValue = toHalfWidth(currentValue)
+        handleValueChange(convertedValue, { skipCompositionCheck: true, commit: true })
       }
 
       // Apply min/max validation on blur
       if (rawInputValue !== '' && !(allowNegative && isMinusSign(rawInputValue))) {
         const convertedValue = convertFullWidthToHalfWidth(rawInputValue)
-        const numValue = Number(convertedValue)
-        if (!Number.isNaN(numValue) && Number.isFinite(numValue)) {
-          let clampedValue = numValue
+        const decimalValue = parseValueProp(convertedValue)
+        if (decimalValue !== undefined) {
+          let clampedValue = decimalValue
           let shouldUpdate = false
 
-          if (minValue !== undefined && clampedValue < minValue) {
+          if (minValue !== undefined && compareDecimalStrings(clampedValue, minValue) < 0) {
             clampedValue = minValue
             shouldUpdate = true
           }
-          if (maxValue !== undefined && clampedValue > maxValue) {
+          if (maxValue !== undefined && compareDecimalStrings(clampedValue, maxValue) > 0) {
             clampedValue = maxValue
             shouldUpdate = true
           }
 
           if (shouldUpdate) {
-            const clampedString = clampedValue.toString()
-            setRawInputValue(clampedString)
+            setRawInputValue(clampedValue)
             const valueObject = {
               value: clampedValue,
-              formattedValue: formatValue(clampedValue),
-            }
-            if (onValueChange) {
-              onValueChange(valueObject)
-            }
-            if (!isControlled) {
-              setInternalValue(valueObject)
+              formattedValue: formatDecimal(clampedValue),
             }
+            emitValueChange(valueObject)
           }
         }
       }
@@ -521,14 +1437,9 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
         setRawInputValue('-')
         const valueObject = {
           value: 0,
-          formattedValue: '-',
-        }
-        if (onValueChange) {
-          onValueChange(valueObject)
-        }
-        if (!isControlled) {
-          setInternalValue(valueObject)
+          formattedValue: numberSymbols.minusSign,
         }
+        emitValueChange(valueObject)
       }
 
       hasProcessedComposition.current = false
@@ -544,8 +1455,12 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
       rawInputValue,
       minValue,
       maxValue,
-      formatValue,
+      formatDecimal,
       allowNegative,
+      numberSymbols,
+      emitValueChange,
+      stripValueAffixes,
+      toHalfWidth,
       processConvertedValue,
     ],
   )
@@ -553,23 +1468,36 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
   // Reset rawInputValue when value prop changes externally (e.g., form reset)
   // Only run this effect in controlled mode
   useEffect(() => {
-    if (!isControlled) {
+    // A scrub shows values the parent hasn't seen yet, so it isn't reset to the value prop
+    if (!isControlled || deferredScrubRef.current) {
       return
     }
     
-    const numValue = parseValueProp(value, separator)
-    const prevNumValue = parseValueProp(prevValueRef.current, separator)
+    const numValue = parseValue(value)
+    const prevNumValue = parseValue(prevValueRef.current)
     const isFirstRender = prevValueRef.current === undefined
     const valueChanged = !isFirstRender && value !== prevValueRef.current
+    const isZero = (decimal: string | undefined) =>
+      decimal !== undefined && compareDecimalStrings(decimal, '0') === 0
+    // Number mode compares floats like the reported value; exact modes compare every digit
+    const isSameValue = (decimal: string | undefined, other: string) =>
+      decimal !== undefined &&
+      (isExactValue
+        ? compareDecimalStrings(decimal, other) === 0
+        : Number(decimal) === Number(other))
     // Check if value changed from non-zero to zero (external reset)
-    const changedToZero = !isFirstRender && prevNumValue !== 0 && numValue === 0
+    const changedToZero = !isFirstRender && !isZero(prevNumValue) && isZero(numValue)
     prevValueRef.current = value
 
-    if (Number.isNaN(numValue)) {
+    if (numValue === undefined) {
       // Preserve minus sign if allowNegative is true and user is typing
       if (allowNegative && isMinusSign(rawInputValue)) {
         return
       }
+      // Preserve a dangling exponent ("1e", "1e-") while the user is typing
+      if (allowExponent && rawInputValue.includes('e')) {
+        return
+      }
       setRawInputValue('')
       return
     }
@@ -577,7 +1505,7 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
     // If the value is 0, preserve rawInputValue if it's a special pattern
     // But if rawInputValue is empty and value prop didn't change externally, keep it empty
     // This allows users to delete "0" and have an empty input
-    if (numValue === 0) {
+    if (isZero(numValue)) {
       // On first render with value={0}, set rawInputValue to '0' to show "0"
       if (isFirstRender && rawInputValue === '') {
         setRawInputValue('0')
@@ -606,13 +1534,8 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
 
       // Check if rawInputValue is a negative number (preserve it when allowNegative is true)
       if (allowNegative && rawInputValue !== '') {
-        const convertedRawValue = convertFullWidthToHalfWidth(rawInputValue)
-        const rawAsNumber = Number(convertedRawValue)
-        if (
-          !Number.isNaN(rawAsNumber) &&
-          Number.isFinite(rawAsNumber) &&
-          rawAsNumber < 0
-        ) {
+        const rawDecimal = parseValueProp(convertFullWidthToHalfWidth(rawInputValue))
+        if (rawDecimal !== undefined && compareDecimalStrings(rawDecimal, '0') < 0) {
           return
         }
       }
@@ -643,18 +1566,25 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
         return
       }
 
-      const convertedRawValue = convertFullWidthToHalfWidth(rawInputValue)
-      const rawAsNumber = Number(convertedRawValue)
+      // A dangling exponent ("1e-") stands for its mantissa
+      const convertedRawValue = convertFullWidthToHalfWidth(rawInputValue).replace(
+        /e-?$/,
+        '',
+      )
+      const rawDecimal = parseValueProp(convertedRawValue)
 
       if (allowNegative && convertedRawValue.startsWith('-')) {
-        if (rawAsNumber === numValue) {
+        if (isSameValue(rawDecimal, numValue)) {
           return
-        } else if (numValue > 0 && Math.abs(rawAsNumber) === numValue) {
+        } else if (
+          compareDecimalStrings(numValue, '0') > 0 &&
+          isSameValue(rawDecimal?.replace('-', ''), numValue)
+        ) {
           setRawInputValue('')
         } else {
           return
         }
-      } else if (rawAsNumber !== numValue) {
+      } else if (!isSameValue(rawDecimal, numValue)) {
         // If the numeric value doesn't match, clear rawInputValue to let displayValue format it
         // But only if value changed externally (not from user typing)
         if (valueChanged) {
@@ -665,19 +1595,10 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
       // If rawInputValue is empty and value changed externally, clear it to let displayValue format it
       setRawInputValue('')
     }
-  }, [value, separator, rawInputValue, allowNegative, isControlled])
-
-  // Format the display value
-  const displayValue = useMemo(() => {
-    if (composingValue !== '') {
-      return composingValue
-    }
-
-    // Use internal value for uncontrolled mode
-    if (!isControlled && rawInputValue === '') {
-      return internalValue.formattedValue
-    }
+  }, [value, parseValue, rawInputValue, allowNegative, allowExponent, isExactValue, isControlled])
 
+  // Format the numeric part of the display value
+  const numericDisplayValue = useMemo(() => {
     if (rawInputValue === '') {
       // When rawInputValue is empty, check if user has actively cleared it
       // If user cleared it (userCleared is true), show empty string
@@ -687,17 +1608,19 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
       }
       
       // Format the value prop for display (initial render or external update)
-      const numValue = parseValueProp(value, separator)
-      if (Number.isNaN(numValue)) {
+      const numValue = parseValue(value)
+      if (numValue === undefined) {
         return ''
       }
-      if (Number.isFinite(numValue)) {
-        return formatValue(numValue)
-      }
-      return ''
+      return formatDecimal(roundToScale(numValue), true)
     }
 
     if (rawInputValue !== '') {
+      // Typed exponents are shown as typed, with a grouped mantissa
+      if (allowExponent && rawInputValue.includes('e')) {
+        return formatPartialValue(rawInputValue)
+      }
+
       const isSingleZero =
         rawInputValue === '0' ||
         rawInputValue === '-0' ||
@@ -708,48 +1631,369 @@ export const useNumericInput = (options: UseNumericInputOptions) => {
         allowDecimal &&
         rawInputValue.endsWith('.') &&
         !rawInputValue.endsWith('..')
+      const hasTrailingFractionZeros =
+        !isExactValue && allowDecimal && /\.\d*0$/.test(rawInputValue)
 
-      if (isSingleZero || isMinusOnly || endsWithDecimalPoint) {
-        return normalizeMinusSign(rawInputValue)
+      if (isSingleZero || isMinusOnly || endsWithDecimalPoint || hasTrailingFractionZeros) {
+        return formatPartialValue(rawInputValue)
       }
 
-      const rawAsNumber = Number(rawInputValue)
-      if (!Number.isNaN(rawAsNumber) && Number.isFinite(rawAsNumber)) {
-        return formatValue(rawAsNumber)
+      const rawDecimal = parseValueProp(rawInputValue)
+      if (rawDecimal !== undefined) {
+        return formatDecimal(rawDecimal, !isFocused)
       }
     }
 
-    const numValue = parseValueProp(value, separator)
-    if (Number.isNaN(numValue) || !Number.isFinite(numValue)) {
+    const numValue = parseValue(value)
+    if (numValue === undefined) {
       return ''
     }
 
-    return formatValue(numValue)
-  }, [value, formatValue, separator, composingValue, rawInputValue, allowNegative, allowDecimal, isControlled, internalValue, userCleared])
+    return formatDecimal(roundToScale(numValue), true)
+  }, [value, formatDecimal, roundToScale, formatPartialValue, parseValue, rawInputValue, allowNegative, allowDecimal, allowExponent, isExactValue, isFocused, userCleared])
+
+  // Read-friendly display while the input isn't focused (e.g. compact "1.2M")
+  // formattedValue keeps the editable format so it can be fed back as the value prop
+  const blurredDisplayValue = useMemo(() => {
+    if (!blurredFormat || numericDisplayValue === '') {
+      return undefined
+    }
+    const displayDecimal = parseValueProp(numericDisplayValue, numberSymbols)
+    // The formatter works on numbers, so exact values are read as a float here
+    const reportedValue = Number(toReportedValue(displayDecimal))
+    if (displayDecimal === undefined || !Number.isFinite(reportedValue)) {
+      return undefined
+    }
+
+    if (typeof blurredFormat === 'function') {
+      return blurredFormat(reportedValue, toDisplayText(padFixedScale(numericDisplayValue)))
+    }
+
+    const modeOptions: Intl.NumberFormatOptions = currency
+      ? { style: 'currency', currency, currencyDisplay }
+      : percent
+        ? { style: 'percent' }
+        : {}
+    const formatOptions: Intl.NumberFormatOptions =
+      blurredFormat === 'compact'
+        ? { ...modeOptions, notation: 'compact', maximumFractionDigits: 1 }
+        : blurredFormat
+    const formatted = new Intl.NumberFormat(resolveLocale(locale), {
+      numberingSystem,
+      signDisplay,
+      ...formatOptions,
+    }).format(reportedValue)
+    return applySignStyle(formatted, numberSymbols.minusSign, negativeStyle)
+  }, [blurredFormat, numericDisplayValue, numberSymbols, toReportedValue, toDisplayText, padFixedScale, currency, currencyDisplay, percent, locale, numberingSystem, signDisplay, negativeStyle])
+  blurredDisplayRef.current = blurredDisplayValue
+
+  // Format the display value
+  const displayValue = useMemo(() => {
+    if (composingValue !== '') {
+      return composingValue
+    }
+
+    if (magnitudeDraft !== '') {
+      return magnitudeDraft
+    }
+
+    if (!isFocused && blurredDisplayValue !== undefined) {
+      return blurredDisplayValue
+    }
+
+    // Use internal value for uncontrolled mode
+    if (!isControlled && rawInputValue === '') {
+      return internalValue.formattedValue
+    }
+
+    // Typing stays free-form while focused; the fixed decimal scale shows once focus leaves
+    return toDisplayText(
+      isFocused ? numericDisplayValue : padFixedScale(numericDisplayValue),
+    )
+  }, [composingValue, magnitudeDraft, blurredDisplayValue, isControlled, rawInputValue, internalValue, toDisplayText, numericDisplayValue, isFocused, padFixedScale])
+  displayValueRef.current = displayValue
+
+  // Drives the data-negative attribute, so negatives can be styled with CSS
+  const isNegative = delocalizeNumericInput(numericDisplayValue, numberSymbols).startsWith('-')
+
+  // The shown number as a decimal string, read by stepping and the spinbutton attributes
+  const numericValue = useMemo(
+    () => parseValueProp(numericDisplayValue, numberSymbols),
+    [numericDisplayValue, numberSymbols],
+  )
+  // Stepping never goes below zero without allowNegative
+  const stepLowerBound = minValue ?? (allowNegative ? undefined : '0')
+
+  // Every render shows the stepped value, so later steps read it from state again
+  useEffect(() => {
+    pendingStepValueRef.current = undefined
+  })
+
+  // Commit a stepped value like a finished edit, with the caret after the last digit
+  const commitStepValue = useCallback(
+    (decimal: string) => {
+      const currentValue = pendingStepValueRef.current ?? numericValue
+      const nextValue = plugins.length > 0 ? runValidateStages(decimal) : decimal
+      if (
+        nextValue === undefined ||
+        (currentValue !== undefined && compareDecimalStrings(nextValue, currentValue) === 0)
+      ) {
+        return
+      }
+      pendingStepValueRef.current = nextValue
+      pendingCursorRef.current = {
+        digitCountStart: Number.POSITIVE_INFINITY,
+        digitCountEnd: Number.POSITIVE_INFINITY,
+      }
+      setUserCleared(false)
+      setMagnitudeDraft('')
+      setRawInputValue(nextValue)
+      if (deferredScrubRef.current) {
+        deferredScrubRef.current.value = nextValue
+        return
+      }
+      emitValueChange({ value: nextValue, formattedValue: formatDecimal(nextValue) })
+    },
+    [numericValue, plugins, runValidateStages, emitValueChange, formatDecimal],
+  )
+
+  // Step the shown number (an empty input counts as 0), then round to the fraction limit and clamp
+  const stepValue = useCallback(
+    (direction: 1 | -1, multiplier: number) => {
+      if (step === undefined) return
+      const currentValue = pendingStepValueRef.current ?? numericValue ?? '0'
+      const fractionLimit = allowDecimal ? maxDecimalPlaces : 0
+      let nextValue: string
+
+      if (typeof step === 'function') {
+        const steppedValue = step(Number(currentValue), direction, multiplier)
+        if (!Number.isFinite(steppedValue)) return
+        nextValue = toPlainNumberString(steppedValue)
+      } else {
+        let stepSize = multiplyByMagnitude(toDecimalString(step), multiplier)
+        if (compareDecimalStrings(stepSize, '0') <= 0) return
+        // A step finer than the field can show would round back to the same value
+        const smallestStep =
+          fractionLimit !== undefined ? shiftDecimalPoint('1', -fractionLimit) : undefined
+        if (smallestStep !== undefined && compareDecimalStrings(stepSize, smallestStep) < 0) {
+          stepSize = smallestStep
+        }
+        nextValue = addDecimalStrings(currentValue, direction > 0 ? stepSize : `-${stepSize}`)
+      }
+
+      if (fractionLimit !== undefined) {
+        nextValue = roundDecimalString(nextValue, fractionLimit, roundingMode ?? 'halfUp')
+      }
+      // Drop trailing fraction zeros left by rounding ("10.00" → "10")
+      nextValue = shiftDecimalPoint(nextValue, 0)
+
+      if (stepLowerBound !== undefined && compareDecimalStrings(nextValue, stepLowerBound) < 0) {
+        nextValue = stepLowerBound
+      }
+      if (maxValue !== undefined && compareDecimalStrings(nextValue, maxValue) > 0) {
+        nextValue = maxValue
+      }
+      if (!isExactValue && Math.abs(Number(nextValue)) > Number.MAX_SAFE_INTEGER) {
+        nextValue = toPlainNumberString(Math.sign(Number(nextValue)) * Number.MAX_SAFE_INTEGER)
+      }
+      commitStepValue(nextValue)
+    },
+    [
+      step,
+      numericValue,
+      allowDecimal,
+      maxDecimalPlaces,
+      roundingMode,
+      stepLowerBound,
+      maxValue,
+      isExactValue,
+      commitStepValue,
+    ],
+  )
+
+  // Step multiplier for held modifier keys: Shift for larger steps, Alt for smaller ones
+  const getModifierMultiplier = useCallback(
+    ({ shiftKey, altKey }: { shiftKey: boolean; altKey: boolean }) => {
+      const multipliers = { ...DEFAULT_STEP_MULTIPLIERS, ...stepMultipliers }
+      return shiftKey ? multipliers.shift : altKey ? multipliers.alt : 1
+    },
+    [stepMultipliers],
+  )
+
+  // Arrow keys step by step (Shift/Alt multiply it), PageUp/PageDown take big steps,
+  // and Home/End jump to minValue/maxValue when they are set
+  // Returns whether the key was used, so the caller can prevent its default action
+  const handleStepKey = useCallback(
+    (e: KeyboardEvent<HTMLInputElement>) => {
+      if (step === undefined || e.nativeEvent.isComposing || e.currentTarget.readOnly) {
+        return false
+      }
+      switch (e.key) {
+        case 'ArrowUp':
+        case 'ArrowDown':
+          stepValue(e.key === 'ArrowUp' ? 1 : -1, getModifierMultiplier(e))
+          return true
+        case 'PageUp':
+        case 'PageDown':
+          stepValue(
+            e.key === 'PageUp' ? 1 : -1,
+            stepMultipliers?.page ?? DEFAULT_STEP_MULTIPLIERS.page,
+          )
+          return true
+        case 'Home':
+        case 'End': {
+          const bound = e.key === 'Home' ? minValue : maxValue
+          if (bound === undefined) return false
+          commitStepValue(bound)
+          return true
+        }
+        default:
+          return false
+      }
+    },
+    [step, stepMultipliers, getModifierMultiplier, stepValue, minValue, maxValue, commitStepValue],
+  )
+
+  // Scrubbing (useNumericScrub) steps through the same rounding and clamping as the keyboard
+  // With commit on release, the input shows each step and onValueChange gets the final value
+  useImperativeHandle(
+    scrubRef,
+    () => ({
+      startScrub: (commitOnRelease) => {
+        deferredScrubRef.current = commitOnRelease ? { value: undefined } : null
+      },
+      scrubBy: (steps, modifiers) => {
+        const input = inputRef.current
+        if (steps === 0 || input?.readOnly || input?.disabled) return
+        stepValue(steps > 0 ? 1 : -1, getModifierMultiplier(modifiers) * Math.abs(steps))
+      },
+      endScrub: () => {
+        const scrubbedValue = deferredScrubRef.current?.value
+        deferredScrubRef.current = null
+        if (scrubbedValue !== undefined) {
+          emitValueChange({ value: scrubbedValue, formattedValue: formatDecimal(scrubbedValue) })
+        }
+      },
+    }),
+    [stepValue, getModifierMultiplier, emitValueChange, formatDecimal],
+  )
+
+  // Wheel-to-adjust needs a non-passive listener: React registers wheel handlers as passive,
+  // where preventDefault can't stop the page from scrolling
+  useEffect(() => {
+    const input = inputRef.current
+    if (wheelBehavior === 'none' || !input) return
+    const multiplier =
+      wheelBehavior === 'fine'
+        ? (stepMultipliers?.alt ?? DEFAULT_STEP_MULTIPLIERS.alt)
+        : 1
+
+    const handleWheel = (e: WheelEvent) => {
+      // Only the focused field takes the wheel, so the page still scrolls past it
+      // Ctrl+wheel is pinch-to-zoom on trackpads
+      if (
+        document.activeElement !== input ||
+        e.ctrlKey ||
+        input.readOnly ||
+        isComposing.current
+      ) {
+        return
+      }
+      e.preventDefault()
+
+      // Shift+wheel scrolls horizontally in some browsers
+      const delta = e.deltaY !== 0 ? e.deltaY : e.shiftKey ? e.deltaX : 0
+      // Wheel up (negative delta) steps up
+      const steps = -delta / (WHEEL_DELTA_PER_STEP[e.deltaMode] ?? WHEEL_DELTA_PER_STEP[0])
+      if (steps === 0) return
+      // A change of direction drops movement left over from the other way
+      if (Math.sign(steps) !== Math.sign(wheelDeltaRef.current)) {
+        wheelDeltaRef.current = 0
+      }
+      wheelDeltaRef.current += steps
+      // Rounded first, so ten deltas of 0.1 step make a whole step despite float drift
+      const wholeSteps = Math.trunc(Math.round(wheelDeltaRef.current * 1e6) / 1e6)
+      if (wholeSteps === 0) return
+      wheelDeltaRef.current -= wholeSteps
+      stepValue(wholeSteps > 0 ? 1 : -1, multiplier * Math.abs(wholeSteps))
+    }
+
+    input.addEventListener('wheel', handleWheel, { passive: false })
+    return () => input.removeEventListener('wheel', handleWheel)
+  }, [wheelBehavior, stepMultipliers, stepValue])
+
+  // Whether a step up or down could still change the value; stepper buttons disable at the bounds
+  const canIncrement =
+    step !== undefined &&
+    (maxValue === undefined || compareDecimalStrings(numericValue ?? '0', maxValue) < 0)
+  const canDecrement =
+    step !== undefined &&
+    (stepLowerBound === undefined ||
+      compareDecimalStrings(numericValue ?? '0', stepLowerBound) > 0)
+
+  // Spin button semantics for inputs with step controls; numbers are on the shown scale
+  const spinbuttonProps = {
+    role: 'spinbutton',
+    'aria-valuenow': numericValue !== undefined ? Number(numericValue) : undefined,
+    'aria-valuemin': minValue !== undefined ? Number(minValue) : undefined,
+    'aria-valuemax': maxValue !== undefined ? Number(maxValue) : undefined,
+    'aria-valuetext': displayValue || undefined,
+  }
 
   // Restore cursor position after displayValue updates (e.g. after reformatting with separators)
   useEffect(() => {
     const pending = pendingCursorRef.current
     if (!pending || !inputRef.current) return
     const input = inputRef.current
-    const newStart = positionAfterDigitCount(displayValue, pending.digitCountStart)
-    const newEnd = positionAfterDigitCount(displayValue, pending.digitCountEnd)
-    input.selectionStart = newStart
-    input.selectionEnd = newEnd
+    const { start, end } = getEditableRange(displayValue)
+    const numericText = displayValue.slice(start, end)
+    const newStart = positionAfterDigitCount(
+      numericText,
+      pending.digitCountStart,
+      caretAnchorChars,
+      true,
+    )
+    const newEnd = positionAfterDigitCount(
+      numericText,
+      pending.digitCountEnd,
+      caretAnchorChars,
+      true,
+    )
+    input.selectionStart = start + newStart
+    input.selectionEnd = start + newEnd
     pendingCursorRef.current = null
-  }, [displayValue])
+  }, [displayValue, caretAnchorChars, getEditableRange])
 
   // Determine appropriate inputMode for mobile keyboards
-  const inputMode: 'decimal' | 'numeric' = allowDecimal ? 'decimal' : 'numeric'
+  // Numeric keypads have no "e", so exponent input needs the full keyboard
+  const inputMode: 'decimal' | 'numeric' | 'text' = allowExponent
+    ? 'text'
+    : allowDecimal
+      ? 'decimal'
+      : 'numeric'
 
   return {
     inputRef,
     inputMode,
+    allowDecimal,
     displayValue,
+    isNegative,
+    groupSeparator: numberSymbols.group,
+    decimalSeparator: numberSymbols.decimal,
+    getEditableRange,
     hasProcessedComposition,
+    isMagnitudePending: magnitudeDraft !== '',
+    handleFocus,
     handleBlur,
     handleValueChange,
     handleCompositionEnd,
     handleCompositionStart,
+    handlePaste,
+    handleDrop,
+    handleStepKey,
+    stepValue,
+    canIncrement,
+    canDecrement,
+    spinbuttonProps,
   }
 }
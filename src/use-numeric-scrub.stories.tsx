@@ -0,0 +1,141 @@
+import type { Meta, StoryObj } from '@storybook/react-vite'
+import { useState, useCallback } from 'react'
+import { NumericInput } from './numeric-input'
+import { useNumericScrub } from './use-numeric-scrub'
+import type { NumericInputProps, NumericInputValue } from './numeric-input.types'
+
+// Wrapper component that maintains its own state and drags a label to scrub
+const ScrubFieldWithState = ({
+  label = 'W',
+  pixelsPerStep,
+  pointerLock,
+  commitOnRelease,
+  ...props
+}: Omit<NumericInputProps, 'onValueChange' | 'scrubRef'> & {
+  label?: string
+} & Parameters<typeof useNumericScrub>[0]) => {
+  const [value, setValue] = useState<NumericInputValue>({
+    value: undefined,
+    formattedValue: '',
+  })
+  const { scrubRef, handleProps, isScrubbing } = useNumericScrub({
+    pixelsPerStep,
+    pointerLock,
+    commitOnRelease,
+    disabled: props.disabled,
+  })
+
+  const handleValueChange = useCallback((val: NumericInputValue) => {
+    setValue(val)
+  }, [])
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px', minWidth: '300px' }}>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <span {...handleProps} style={{ ...handleProps.style, padding: '4px 8px', fontWeight: 600 }}>
+          {label}
+        </span>
+        <NumericInput
+          {...props}
+          scrubRef={scrubRef}
+          value={value.formattedValue}
+          onValueChange={handleValueChange}
+        />
+      </label>
+      <div style={{ fontSize: '12px', color: '#666', marginTop: '8px' }}>
+        <div>Value: {value.value}</div>
+        <div>Formatted: {value.formattedValue || '(empty)'}</div>
+        <div>Scrubbing: {String(isScrubbing)}</div>
+      </div>
+    </div>
+  )
+}
+
+const meta = {
+  title: 'Hooks/useNumericScrub',
+  component: ScrubFieldWithState,
+  parameters: {
+    layout: 'centered',
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    label: {
+      control: 'text',
+      description: 'Text of the drag handle',
+    },
+    pixelsPerStep: {
+      control: 'number',
+      description: 'Pixels to drag for one step (default: 4)',
+    },
+    pointerLock: {
+      control: 'boolean',
+      description: 'Lock the mouse cursor while dragging',
+    },
+    commitOnRelease: {
+      control: 'boolean',
+      description: 'Call onValueChange once the drag ends (default: true)',
+    },
+    step: {
+      control: 'number',
+      description: 'Amount added or subtracted per step (default: 1)',
+    },
+    minValue: {
+      control: 'number',
+      description: 'Minimum value',
+    },
+    maxValue: {
+      control: 'number',
+      description: 'Maximum value',
+    },
+    disabled: {
+      control: 'boolean',
+      description: 'Disable the input and the handle',
+    },
+  },
+} satisfies Meta<typeof ScrubFieldWithState>
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  args: {
+    label: 'W',
+    placeholder: 'Drag the label',
+    minValue: 0,
+    maxValue: 4096,
+    suffix: 'px',
+  },
+}
+
+export const WithPointerLock: Story = {
+  args: {
+    label: 'X',
+    placeholder: 'Drag the label',
+    allowNegative: true,
+    pointerLock: true,
+    pixelsPerStep: 2,
+  },
+}
+
+export const FineDecimals: Story = {
+  args: {
+    label: 'Opacity',
+    placeholder: '0-1',
+    allowDecimal: true,
+    maxDecimalPlaces: 2,
+    step: '0.01',
+    minValue: 0,
+    maxValue: 1,
+  },
+}
+
+export const LiveUpdates: Story = {
+  args: {
+    label: 'R',
+    placeholder: 'Updates while dragging',
+    commitOnRelease: false,
+    minValue: 0,
+    maxValue: 360,
+    suffix: '°',
+  },
+}
@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type MockedFunction } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { NumericInput } from './numeric-input'
+import { useNumericScrub } from './use-numeric-scrub'
+import type {
+  NumericInputProps,
+  NumericInputValue,
+  NumericValueType,
+} from './numeric-input.types'
+
+type ScrubFieldProps = NumericInputProps & {
+  scrubOptions?: Parameters<typeof useNumericScrub>[0]
+}
+
+const ScrubField = ({ scrubOptions, ...props }: ScrubFieldProps) => {
+  const { scrubRef, handleProps } = useNumericScrub(scrubOptions)
+  return (
+    <label>
+      <span {...handleProps}>Width</span>
+      <NumericInput scrubRef={scrubRef} {...props} />
+    </label>
+  )
+}
+
+describe('useNumericScrub', () => {
+  let onValueChange: MockedFunction<
+    (valueObject: NumericInputValue<NumericValueType>) => void
+  >
+
+  beforeEach(() => {
+    onValueChange = vi.fn()
+  })
+
+  // Drags the handle from x=0 through each position, then releases it
+  const drag = (handle: HTMLElement, positions: number[], init: Record<string, unknown> = {}) => {
+    fireEvent.pointerDown(handle, { button: 0, pointerId: 1, clientX: 0, ...init })
+    for (const clientX of positions) {
+      fireEvent.pointerMove(handle, { pointerId: 1, clientX, ...init })
+    }
+    fireEvent.pointerUp(handle, { pointerId: 1 })
+  }
+
+  it('should step once per pixelsPerStep dragged', () => {
+    render(<ScrubField onValueChange={onValueChange} />)
+
+    const handle = screen.getByText('Width')
+    drag(handle, [3, 4, 10, 20])
+    expect(screen.getByRole('textbox')).toHaveValue('5')
+
+    drag(handle, [-8])
+    expect(screen.getByRole('textbox')).toHaveValue('3')
+  })
+
+  it('should use a custom pixelsPerStep and step', () => {
+    render(
+      <ScrubField
+        onValueChange={onValueChange}
+        step={5}
+        scrubOptions={{ pixelsPerStep: 10 }}
+      />,
+    )
+
+    drag(screen.getByText('Width'), [25])
+    expect(screen.getByRole('textbox')).toHaveValue('10')
+  })
+
+  it('should take larger steps with Shift and smaller steps with Alt', () => {
+    render(<ScrubField onValueChange={onValueChange} allowDecimal />)
+
+    const handle = screen.getByText('Width')
+    const input = screen.getByRole('textbox')
+    drag(handle, [8], { shiftKey: true })
+    expect(input).toHaveValue('20')
+
+    drag(handle, [-4], { altKey: true })
+    expect(input).toHaveValue('19.9')
+  })
+
+  it('should clamp to the bounds and maxDecimalPlaces', () => {
+    render(
+      <ScrubField
+        onValueChange={onValueChange}
+        allowDecimal
+        maxDecimalPlaces={0}
+        maxValue={7}
+      />,
+    )
+
+    const handle = screen.getByText('Width')
+    const input = screen.getByRole('textbox')
+    drag(handle, [400])
+    expect(input).toHaveValue('7')
+
+    // Alt steps are raised to the smallest shown unit
+    drag(handle, [-4], { altKey: true })
+    expect(input).toHaveValue('6')
+  })
+
+  it('should report the value once on release by default', () => {
+    render(<ScrubField onValueChange={onValueChange} separator="," value={1000} />)
+
+    const handle = screen.getByText('Width')
+    const input = screen.getByRole('textbox')
+    fireEvent.pointerDown(handle, { button: 0, pointerId: 1, clientX: 0 })
+    fireEvent.pointerMove(handle, { pointerId: 1, clientX: 4 })
+    fireEvent.pointerMove(handle, { pointerId: 1, clientX: 8 })
+    expect(input).toHaveValue('1,002')
+    expect(onValueChange).not.toHaveBeenCalled()
+
+    fireEvent.pointerUp(handle, { pointerId: 1 })
+    expect(onValueChange).toHaveBeenCalledTimes(1)
+    expect(onValueChange).toHaveBeenLastCalledWith({
+      value: 1002,
+      formattedValue: '1,002',
+    })
+  })
+
+  it('should report every step without commitOnRelease', () => {
+    render(
+      <ScrubField onValueChange={onValueChange} scrubOptions={{ commitOnRelease: false }} />,
+    )
+
+    drag(screen.getByText('Width'), [4, 8, 12])
+    expect(onValueChange).toHaveBeenCalledTimes(3)
+    expect(onValueChange).toHaveBeenLastCalledWith({
+      value: 3,
+      formattedValue: '3',
+    })
+  })
+
+  it('should report the value when the drag is cancelled', () => {
+    render(<ScrubField onValueChange={onValueChange} />)
+
+    const handle = screen.getByText('Width')
+    fireEvent.pointerDown(handle, { button: 0, pointerId: 1, clientX: 0 })
+    fireEvent.pointerMove(handle, { pointerId: 1, clientX: 4 })
+    fireEvent.pointerCancel(handle, { pointerId: 1 })
+    expect(onValueChange).toHaveBeenLastCalledWith({
+      value: 1,
+      formattedValue: '1',
+    })
+
+    // The drag is over, so later moves don't step
+    fireEvent.pointerMove(handle, { pointerId: 1, clientX: 40 })
+    expect(screen.getByRole('textbox')).toHaveValue('1')
+  })
+
+  it('should mark the handle while scrubbing and call the callbacks', () => {
+    const onScrubStart = vi.fn()
+    const onScrubEnd = vi.fn()
+    render(<ScrubField scrubOptions={{ onScrubStart, onScrubEnd }} />)
+
+    const handle = screen.getByText('Width')
+    expect(handle).not.toHaveAttribute('data-scrubbing')
+    fireEvent.pointerDown(handle, { button: 0, pointerId: 1, clientX: 0 })
+    expect(handle).toHaveAttribute('data-scrubbing', 'true')
+    expect(onScrubStart).toHaveBeenCalledTimes(1)
+
+    fireEvent.pointerUp(handle, { pointerId: 1 })
+    expect(handle).not.toHaveAttribute('data-scrubbing')
+    expect(onScrubEnd).toHaveBeenCalledTimes(1)
+  })
+
+  it('should ignore secondary buttons, a disabled handle and a readOnly input', () => {
+    const { rerender } = render(<ScrubField onValueChange={onValueChange} />)
+
+    const handle = screen.getByText('Width')
+    const input = screen.getByRole('textbox')
+    drag(handle, [40], { button: 2 })
+    expect(input).toHaveValue('')
+
+    rerender(<ScrubField onValueChange={onValueChange} scrubOptions={{ disabled: true }} />)
+    drag(handle, [40])
+    expect(input).toHaveValue('')
+
+    rerender(<ScrubField onValueChange={onValueChange} readOnly />)
+    drag(handle, [40])
+    expect(input).toHaveValue('')
+    expect(onValueChange).not.toHaveBeenCalled()
+  })
+
+  describe('Pointer lock', () => {
+    let lockedElement: Element | null
+
+    beforeEach(() => {
+      lockedElement = null
+      Object.defineProperty(document, 'pointerLockElement', {
+        configurable: true,
+        get: () => lockedElement,
+      })
+      document.exitPointerLock = vi.fn(() => {
+        lockedElement = null
+      })
+      HTMLElement.prototype.requestPointerLock = vi.fn(function (this: HTMLElement) {
+        lockedElement = this
+        return Promise.resolve()
+      })
+    })
+
+    afterEach(() => {
+      delete (document as { pointerLockElement?: Element | null }).pointerLockElement
+      delete (document as { exitPointerLock?: () => void }).exitPointerLock
+      delete (HTMLElement.prototype as { requestPointerLock?: () => void })
+        .requestPointerLock
+    })
+
+    it('should follow movementX while the pointer is locked', () => {
+      render(
+        <ScrubField onValueChange={onValueChange} scrubOptions={{ pointerLock: true }} />,
+      )
+
+      const handle = screen.getByText('Width')
+      fireEvent.pointerDown(handle, {
+        button: 0,
+        pointerId: 1,
+        pointerType: 'mouse',
+        clientX: 0,
+      })
+      expect(document.pointerLockElement).toBe(handle)
+
+      // A locked cursor doesn't move, so clientX stays the same
+      fireEvent.pointerMove(handle, { pointerId: 1, clientX: 0, movementX: 8 })
+      fireEvent.pointerMove(handle, { pointerId: 1, clientX: 0, movementX: 8 })
+      expect(screen.getByRole('textbox')).toHaveValue('4')
+
+      fireEvent.pointerUp(handle, { pointerId: 1 })
+      expect(document.exitPointerLock).toHaveBeenCalled()
+      expect(document.pointerLockElement).toBeNull()
+    })
+
+    it('should not lock touch pointers', () => {
+      render(<ScrubField scrubOptions={{ pointerLock: true }} />)
+
+      fireEvent.pointerDown(screen.getByText('Width'), {
+        button: 0,
+        pointerId: 1,
+        pointerType: 'touch',
+        clientX: 0,
+      })
+      expect(HTMLElement.prototype.requestPointerLock).not.toHaveBeenCalled()
+    })
+  })
+})
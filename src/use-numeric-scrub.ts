@@ -0,0 +1,114 @@
+import {
+  type CSSProperties,
+  type PointerEvent,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from 'react'
+import type { NumericScrubTarget } from './numeric-input.types'
+
+// Horizontal drag is a resize gesture; touch-action: none keeps touch drags from scrolling the page
+const HANDLE_STYLE: CSSProperties = {
+  cursor: 'ew-resize',
+  touchAction: 'none',
+  userSelect: 'none',
+}
+
+type UseNumericScrubOptions = {
+  pixelsPerStep?: number
+  pointerLock?: boolean
+  commitOnRelease?: boolean
+  disabled?: boolean
+  onScrubStart?: () => void
+  onScrubEnd?: () => void
+}
+
+export const useNumericScrub = (options: UseNumericScrubOptions = {}) => {
+  const {
+    pixelsPerStep = 4,
+    pointerLock = false,
+    commitOnRelease = true,
+    disabled = false,
+    onScrubStart,
+    onScrubEnd,
+  } = options
+
+  // Passed to NumericInput as scrubRef
+  const scrubRef = useRef<NumericScrubTarget | null>(null)
+  const [isScrubbing, setIsScrubbing] = useState(false)
+  // Active drag: the pointer, its last x position and movement that hasn't made a whole step yet
+  const dragRef = useRef<{ pointerId: number; lastX: number; delta: number } | null>(null)
+
+  const endScrub = useCallback(
+    (target: HTMLElement) => {
+      const drag = dragRef.current
+      if (!drag) return
+      dragRef.current = null
+      if (target.hasPointerCapture?.(drag.pointerId)) {
+        target.releasePointerCapture(drag.pointerId)
+      }
+      if (document.pointerLockElement === target) {
+        document.exitPointerLock()
+      }
+      scrubRef.current?.endScrub()
+      setIsScrubbing(false)
+      onScrubEnd?.()
+    },
+    [onScrubEnd],
+  )
+
+  // Don't leave the cursor locked when the handle unmounts mid-drag
+  useEffect(
+    () => () => {
+      if (dragRef.current && document.pointerLockElement) {
+        document.exitPointerLock()
+      }
+    },
+    [],
+  )
+
+  const handleProps = {
+    style: HANDLE_STYLE,
+    'data-scrubbing': isScrubbing || undefined,
+    onPointerDown: (e: PointerEvent<HTMLElement>) => {
+      // Only the primary mouse button, a touch or a pen contact scrubs
+      if (disabled || e.button !== 0 || dragRef.current) return
+      // Keeps the handle from selecting text or taking focus
+      e.preventDefault()
+      const target = e.currentTarget
+      // Capture keeps the drag going when the pointer leaves the handle
+      target.setPointerCapture?.(e.pointerId)
+      // Pointer lock hides the cursor and keeps reporting movement past the screen edges
+      // Browsers may refuse it; the drag then follows the pointer position
+      if (pointerLock && e.pointerType === 'mouse' && target.requestPointerLock) {
+        Promise.resolve(target.requestPointerLock()).catch(() => undefined)
+      }
+      dragRef.current = { pointerId: e.pointerId, lastX: e.clientX, delta: 0 }
+      scrubRef.current?.startScrub(commitOnRelease)
+      setIsScrubbing(true)
+      onScrubStart?.()
+    },
+    onPointerMove: (e: PointerEvent<HTMLElement>) => {
+      const drag = dragRef.current
+      if (!drag || drag.pointerId !== e.pointerId) return
+      // A locked pointer stays put, so only movementX tells how far it went
+      const movement =
+        document.pointerLockElement === e.currentTarget ? e.movementX : e.clientX - drag.lastX
+      drag.lastX = e.clientX
+      drag.delta += movement / pixelsPerStep
+      const wholeSteps = Math.trunc(drag.delta)
+      if (wholeSteps === 0) return
+      drag.delta -= wholeSteps
+      scrubRef.current?.scrubBy(wholeSteps, { shiftKey: e.shiftKey, altKey: e.altKey })
+    },
+    onPointerUp: (e: PointerEvent<HTMLElement>) => endScrub(e.currentTarget),
+    onPointerCancel: (e: PointerEvent<HTMLElement>) => endScrub(e.currentTarget),
+  }
+
+  return {
+    scrubRef,
+    handleProps,
+    isScrubbing,
+  }
+}
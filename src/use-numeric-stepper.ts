@@ -0,0 +1,91 @@
+import {
+  type MouseEvent,
+  type PointerEvent,
+  useCallback,
+  useEffect,
+  useRef,
+} from 'react'
+
+// Press and hold: the first repeat comes after HOLD_DELAY, then repeats speed up
+// from REPEAT_INTERVAL to MIN_REPEAT_INTERVAL
+const HOLD_DELAY = 400
+const REPEAT_INTERVAL = 150
+const MIN_REPEAT_INTERVAL = 30
+const REPEAT_ACCELERATION = 0.85
+
+type UseNumericStepperOptions = {
+  stepValue: (direction: 1 | -1, multiplier: number) => void
+  canIncrement: boolean
+  canDecrement: boolean
+  disabled?: boolean
+}
+
+export const useNumericStepper = (options: UseNumericStepperOptions) => {
+  const { stepValue, canIncrement, canDecrement, disabled = false } = options
+
+  const repeatTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  // Latest step callback and bounds, read by the repeat timer between renders
+  const latestRef = useRef({ stepValue, canIncrement, canDecrement })
+  latestRef.current = { stepValue, canIncrement, canDecrement }
+
+  const stopRepeat = useCallback(() => {
+    clearTimeout(repeatTimerRef.current)
+    repeatTimerRef.current = undefined
+  }, [])
+
+  // Don't keep stepping after unmount
+  useEffect(() => stopRepeat, [stopRepeat])
+
+  const startRepeat = useCallback(
+    (direction: 1 | -1) => {
+      stopRepeat()
+      latestRef.current.stepValue(direction, 1)
+
+      let interval = REPEAT_INTERVAL
+      const repeat = () => {
+        const latest = latestRef.current
+        // A disabled button gets no pointerup, so stop at the bound here
+        if (!(direction > 0 ? latest.canIncrement : latest.canDecrement)) {
+          stopRepeat()
+          return
+        }
+        latest.stepValue(direction, 1)
+        interval = Math.max(interval * REPEAT_ACCELERATION, MIN_REPEAT_INTERVAL)
+        repeatTimerRef.current = setTimeout(repeat, interval)
+      }
+      repeatTimerRef.current = setTimeout(repeat, HOLD_DELAY)
+    },
+    [stopRepeat],
+  )
+
+  const getButtonProps = (direction: 1 | -1) => ({
+    type: 'button' as const,
+    // The input stays the focus and tab stop; the arrow keys step from there
+    tabIndex: -1,
+    disabled: disabled || !(direction > 0 ? canIncrement : canDecrement),
+    onPointerDown: (e: PointerEvent<HTMLButtonElement>) => {
+      // Only the primary mouse button, a touch or a pen contact steps
+      if (e.button !== 0) return
+      // Keeps focus on the input and stops touch from also sending mouse events
+      e.preventDefault()
+      startRepeat(direction)
+    },
+    onPointerUp: stopRepeat,
+    onPointerLeave: stopRepeat,
+    onPointerCancel: stopRepeat,
+    // Some browsers still focus the button from the mouse event
+    onMouseDown: (e: MouseEvent<HTMLButtonElement>) => e.preventDefault(),
+    // A long press on touch screens would open the context menu
+    onContextMenu: (e: MouseEvent<HTMLButtonElement>) => e.preventDefault(),
+    onClick: (e: MouseEvent<HTMLButtonElement>) => {
+      // Clicks without a pointer press (screen readers, assistive switches) step once
+      if (e.detail === 0) {
+        stepValue(direction, 1)
+      }
+    },
+  })
+
+  return {
+    getButtonProps,
+  }
+}
@@ -0,0 +1,253 @@
+import {
+  type CompositionEvent,
+  type FocusEvent,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from 'react'
+import {
+  countDigitsBefore,
+  formatDigitPattern,
+  getPatternPrefix,
+  getPatternSlotCount,
+  positionAfterDigitCount,
+  unmaskDigitPattern,
+} from './numeric-input.utils'
+import type {
+  PatternNumericInputProps,
+  PatternNumericInputValue,
+} from './numeric-input.types'
+
+const DIGIT_PATTERN = /\p{Nd}/u
+
+type UsePatternNumericInputOptions = {
+  pattern: string
+  value?: string
+  patternChar?: string
+  placeholderChar?: string
+  characterMappings?: Record<string, string>
+  onValueChange?: (valueObject: PatternNumericInputValue) => void
+  onCompositionStart?: PatternNumericInputProps['onCompositionStart']
+  onCompositionEnd?: PatternNumericInputProps['onCompositionEnd']
+  onBlur?: PatternNumericInputProps['onBlur']
+  onFocus?: PatternNumericInputProps['onFocus']
+}
+
+type SelectionContext = {
+  displayValue: string
+  selectionStart: number
+  selectionEnd: number
+}
+
+export const usePatternNumericInput = (options: UsePatternNumericInputOptions) => {
+  const {
+    pattern,
+    value,
+    patternChar = '#',
+    placeholderChar,
+    characterMappings,
+    onValueChange,
+    onCompositionStart,
+    onCompositionEnd,
+    onBlur,
+    onFocus,
+  } = options
+
+  if (placeholderChar !== undefined && DIGIT_PATTERN.test(placeholderChar)) {
+    console.warn('PatternNumericInput: placeholderChar should not be a digit')
+  }
+
+  const isComposing = useRef(false)
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  // Store the raw input value during IME composition
+  const [composingValue, setComposingValue] = useState<string>('')
+  // Track if we've already processed the value from composition end
+  const hasProcessedComposition = useRef(false)
+  // Pending cursor restore: digit counts before cursor so we can restore position after masking
+  const pendingCursorRef = useRef<{ digitCountStart: number; digitCountEnd: number } | null>(null)
+  // Internal digits for uncontrolled mode
+  const [internalDigits, setInternalDigits] = useState('')
+  // Placeholder slots are only shown while the field is focused or has digits
+  const [isFocused, setIsFocused] = useState(false)
+
+  const isControlled = value !== undefined
+  const slotCount = getPatternSlotCount(pattern, patternChar)
+  const patternPrefix = getPatternPrefix(pattern, patternChar)
+  // The value prop may be given with or without the mask ("1234567890" or "123-4567890")
+  const digits = isControlled
+    ? unmaskDigitPattern(value, pattern, patternChar, characterMappings)
+    : internalDigits
+
+  // The editable part runs from the end of the leading literal to the last typed digit,
+  // so the caret never lands in the leading literal or among empty placeholder slots
+  const getEditableRange = useCallback(
+    (text: string) => {
+      const start = patternPrefix && text.startsWith(patternPrefix) ? patternPrefix.length : 0
+      let end = text.length
+      while (end > start && !DIGIT_PATTERN.test(text[end - 1] ?? '')) {
+        end--
+      }
+      return { start, end }
+    },
+    [patternPrefix],
+  )
+
+  const scheduleCursorRestore = useCallback(
+    (ctx: SelectionContext) => {
+      const { start } = getEditableRange(ctx.displayValue)
+      const body = ctx.displayValue.slice(start)
+      pendingCursorRef.current = {
+        digitCountStart: countDigitsBefore(body, Math.max(ctx.selectionStart - start, 0)),
+        digitCountEnd: countDigitsBefore(body, Math.max(ctx.selectionEnd - start, 0)),
+      }
+    },
+    [getEditableRange],
+  )
+
+  const emitValueChange = useCallback(
+    (nextDigits: string) => {
+      const valueObject: PatternNumericInputValue = {
+        value: nextDigits,
+        formattedValue: formatDigitPattern(nextDigits, pattern, patternChar),
+        isComplete: nextDigits.length === slotCount,
+      }
+      if (!isControlled) {
+        setInternalDigits(nextDigits)
+      }
+      if (onValueChange) {
+        onValueChange(valueObject)
+      }
+    },
+    [pattern, patternChar, slotCount, isControlled, onValueChange],
+  )
+
+  const handleValueChange = useCallback(
+    (
+      inputValue: string,
+      options?: { skipCompositionCheck?: boolean; selectionContext?: SelectionContext },
+    ) => {
+      // During IME composition, show the raw text and wait for composition end
+      if (!options?.skipCompositionCheck && isComposing.current) {
+        setComposingValue(inputValue)
+        return
+      }
+
+      // Full-width and native digits are read as 0-9, literals and placeholders are dropped
+      const nextDigits = unmaskDigitPattern(inputValue, pattern, patternChar, characterMappings)
+      if (options?.selectionContext) {
+        scheduleCursorRestore(options.selectionContext)
+      }
+      emitValueChange(nextDigits)
+    },
+    [pattern, patternChar, characterMappings, scheduleCursorRestore, emitValueChange],
+  )
+
+  const handleCompositionStart = useCallback(
+    (e: CompositionEvent<HTMLInputElement>) => {
+      isComposing.current = true
+      hasProcessedComposition.current = false
+      // Store the current input value when composition starts
+      setComposingValue(e.currentTarget.value)
+
+      if (onCompositionStart) {
+        onCompositionStart(e)
+      }
+    },
+    [onCompositionStart],
+  )
+
+  const handleCompositionEnd = useCallback(
+    (e: CompositionEvent<HTMLInputElement>) => {
+      isComposing.current = false
+      const target = e.currentTarget
+      const finalValue = target.value
+      const selectionContext = {
+        displayValue: finalValue,
+        selectionStart: target.selectionStart ?? finalValue.length,
+        selectionEnd: target.selectionEnd ?? finalValue.length,
+      }
+      setComposingValue('')
+      hasProcessedComposition.current = true
+
+      if (onCompositionEnd) {
+        onCompositionEnd(e)
+      }
+
+      requestAnimationFrame(() => {
+        handleValueChange(finalValue, { skipCompositionCheck: true, selectionContext })
+        hasProcessedComposition.current = false
+      })
+    },
+    [onCompositionEnd, handleValueChange],
+  )
+
+  const handleFocus = useCallback(
+    (e: FocusEvent<HTMLInputElement>) => {
+      setIsFocused(true)
+      // Showing the placeholder slots of an empty field puts the caret at the first slot
+      if (placeholderChar !== undefined && digits === '') {
+        pendingCursorRef.current = { digitCountStart: 0, digitCountEnd: 0 }
+      }
+
+      if (onFocus) {
+        onFocus(e)
+      }
+    },
+    [placeholderChar, digits, onFocus],
+  )
+
+  const handleBlur = useCallback(
+    (e: FocusEvent<HTMLInputElement>) => {
+      const isNativeComposing = Boolean(
+        (e.nativeEvent as Event & { isComposing?: boolean }).isComposing,
+      )
+
+      // Some IMEs blur before composition is confirmed; wait for compositionend
+      if (!isComposing.current && !isNativeComposing) {
+        setIsFocused(false)
+        if (composingValue !== '') {
+          handleValueChange(composingValue, { skipCompositionCheck: true })
+          setComposingValue('')
+        }
+        hasProcessedComposition.current = false
+      }
+
+      if (onBlur) {
+        onBlur(e)
+      }
+    },
+    [composingValue, handleValueChange, onBlur],
+  )
+
+  const displayValue =
+    composingValue !== ''
+      ? composingValue
+      : digits === '' && !isFocused
+        ? ''
+        : formatDigitPattern(digits, pattern, patternChar, placeholderChar)
+
+  // Restore cursor position after displayValue updates (digits moved across literals)
+  useEffect(() => {
+    const pending = pendingCursorRef.current
+    if (!pending || !inputRef.current) return
+    const input = inputRef.current
+    const { start, end } = getEditableRange(displayValue)
+    const body = displayValue.slice(start, end)
+    input.selectionStart = start + positionAfterDigitCount(body, pending.digitCountStart)
+    input.selectionEnd = start + positionAfterDigitCount(body, pending.digitCountEnd)
+    pendingCursorRef.current = null
+  }, [displayValue, getEditableRange])
+
+  return {
+    inputRef,
+    displayValue,
+    getEditableRange,
+    hasProcessedComposition,
+    handleFocus,
+    handleBlur,
+    handleValueChange,
+    handleCompositionEnd,
+    handleCompositionStart,
+  }
+}